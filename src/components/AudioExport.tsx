@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { FileAudio } from 'lucide-react'
+import { stack } from '@strudel/web'
+import type { PatternInput } from '@/lib/tracks'
+import type { WavBitDepth } from '@/lib/wav'
+import { buildStack } from '@/lib/tracks'
+import { renderWav } from '@/lib/renderAudio'
+import { downloadBlob, safeFileName } from '@/lib/download'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface AudioExportProps {
+  tracks: Array<PatternInput>
+  volume: number
+  cps: number
+  projectName: string
+}
+
+export function AudioExport({ tracks, volume, cps, projectName }: AudioExportProps) {
+  const [cycles, setCycles] = useState(8)
+  const [tailSeconds, setTailSeconds] = useState(2)
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16)
+  const [stems, setStems] = useState(false)
+  const [rendering, setRendering] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [warnings, setWarnings] = useState<Array<string>>([])
+
+  const exportAudio = async () => {
+    const { layers } = buildStack(tracks)
+    // MIDI-routed tracks sound on external gear, so they stay out of the render
+    const audioTracks = tracks.filter((track) => track.id in layers && !track.midi)
+    if (audioTracks.length === 0) {
+      setWarnings([])
+      setStatus('No valid patterns to render')
+      return
+    }
+    const pattern = stack(...audioTracks.map((track) => layers[track.id]))
+
+    const options = { cycles, cps, tailSeconds }
+    const baseName = safeFileName(projectName)
+    setRendering(true)
+    setWarnings([])
+    const collected = new Set<string>()
+    try {
+      if (stems) {
+        // One file per track that made it into the render
+        for (const [index, track] of audioTracks.entries()) {
+          setStatus(`Rendering ${track.name} (${index + 1}/${audioTracks.length})…`)
+          const wav = await renderWav(layers[track.id].postgain(volume), options, bitDepth)
+          wav.warnings.forEach((warning) => collected.add(warning))
+          downloadBlob(wav.output, `${baseName}-${safeFileName(track.name)}.wav`)
+        }
+      } else {
+        setStatus('Rendering mix…')
+        const wav = await renderWav(pattern.postgain(volume), options, bitDepth)
+        wav.warnings.forEach((warning) => collected.add(warning))
+        downloadBlob(wav.output, `${baseName}.wav`)
+      }
+      setStatus(null)
+      setWarnings([...collected])
+    } catch (error) {
+      console.error('Error rendering audio:', error)
+      setStatus('Render failed - see console for details')
+    } finally {
+      setRendering(false)
+    }
+  }
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg flex items-center gap-2">
+          <FileAudio className="h-4 w-4" />
+          Export Audio
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs text-gray-300">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            Cycles
+            <input
+              type="number"
+              value={cycles}
+              min={1}
+              max={256}
+              onChange={(e) => setCycles(Math.max(1, parseInt(e.target.value) || 1))}
+              className="px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Tail (seconds)
+            <input
+              type="number"
+              value={tailSeconds}
+              min={0}
+              max={30}
+              step={0.5}
+              onChange={(e) => setTailSeconds(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Bit depth
+            <select
+              value={bitDepth}
+              onChange={(e) => setBitDepth(parseInt(e.target.value) as WavBitDepth)}
+              className="px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+            >
+              <option value={16}>16-bit</option>
+              <option value={24}>24-bit</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 self-end pb-1">
+            <input type="checkbox" checked={stems} onChange={(e) => setStems(e.target.checked)} />
+            Stems per track
+          </label>
+        </div>
+        <Button
+          onClick={exportAudio}
+          disabled={rendering}
+          size="sm"
+          className="bg-white/10 hover:bg-white/20 text-white w-full"
+        >
+          <FileAudio className="mr-1 h-3 w-3" />
+          Export audio
+        </Button>
+        {status && <p className="text-gray-400">{status}</p>}
+        {warnings.length > 0 && (
+          <ul className="space-y-0.5 text-yellow-300">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
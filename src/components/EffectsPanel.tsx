@@ -0,0 +1,101 @@
+import { Hash, Waves } from 'lucide-react'
+import type { EffectId, EffectParam, EffectValue, TrackEffects } from '@/lib/effects'
+import { EFFECTS, initialParams } from '@/lib/effects'
+import { validateMini } from '@/lib/miniValidation'
+import { Slider } from '@/components/ui/slider'
+
+interface EffectsPanelProps {
+  effects: TrackEffects
+  onChange: (effects: TrackEffects) => void
+}
+
+const formatValue = (value: number, param: EffectParam) =>
+  param.step >= 1 ? String(Math.round(value)) : value.toFixed(2)
+
+interface ParamRowProps {
+  param: EffectParam
+  value: EffectValue
+  onChange: (value: EffectValue) => void
+}
+
+// One parameter: a slider for a fixed value, or a text field for a pattern
+function ParamRow({ param, value, onChange }: ParamRowProps) {
+  const isPattern = typeof value === 'string'
+  const invalid = isPattern && validateMini(value) !== null
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-20 shrink-0">
+        {param.label}
+        {!isPattern && `: ${formatValue(value, param)}`}
+      </span>
+      {isPattern ? (
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={`flex-1 min-w-0 px-2 py-0.5 bg-black/30 border rounded text-white font-mono ${
+            invalid ? 'border-red-500/60' : 'border-white/20'
+          }`}
+          placeholder={`e.g. <${param.initial} ${param.max / 2}>`}
+        />
+      ) : (
+        <Slider
+          className="flex-1"
+          value={[value]}
+          onValueChange={([next]) => onChange(next)}
+          min={param.min}
+          max={param.max}
+          step={param.step}
+        />
+      )}
+      <button
+        onClick={() => onChange(isPattern ? parseFloat(value) || param.initial : String(value))}
+        className="p-0.5 text-gray-400 hover:text-white"
+        title={isPattern ? 'Use a fixed value' : 'Use a pattern, e.g. <400 2000>'}
+      >
+        {isPattern ? <Hash className="h-3 w-3" /> : <Waves className="h-3 w-3" />}
+      </button>
+    </div>
+  )
+}
+
+// Per-track filters, delay, reverb, distortion and bitcrush
+export function EffectsPanel({ effects, onChange }: EffectsPanelProps) {
+  const activeCount = Object.keys(effects).length
+
+  const toggle = (id: EffectId, on: boolean) => {
+    const { [id]: _removed, ...rest } = effects
+    onChange(on ? { ...effects, [id]: initialParams(id) } : rest)
+  }
+
+  return (
+    <details className="text-xs text-gray-300">
+      <summary className="cursor-pointer text-white">
+        Effects{activeCount > 0 && ` (${activeCount} on)`}
+      </summary>
+      <div className="mt-2 space-y-2">
+        {EFFECTS.map(({ id, label, params }) => {
+          const values = effects[id]
+          return (
+            <div key={id} className="space-y-1">
+              <label className="flex items-center gap-1 font-medium text-white">
+                <input type="checkbox" checked={values !== undefined} onChange={(e) => toggle(id, e.target.checked)} />
+                {label}
+              </label>
+              {values &&
+                params.map((param) => (
+                  <ParamRow
+                    key={param.control}
+                    param={param}
+                    value={values[param.control] ?? param.initial}
+                    onChange={(value) => onChange({ ...effects, [id]: { ...values, [param.control]: value } })}
+                  />
+                ))}
+            </div>
+          )
+        })}
+      </div>
+    </details>
+  )
+}
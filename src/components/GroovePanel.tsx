@@ -0,0 +1,114 @@
+import { Dices } from 'lucide-react'
+import type { GrooveSettings, SwingGrid } from '@/lib/groove'
+import { GROOVE_TEMPLATES, MAX_SWING, MIN_SWING, templateFor } from '@/lib/groove'
+import { Slider } from '@/components/ui/slider'
+
+interface GroovePanelProps {
+  groove: GrooveSettings
+  onChange: (groove: GrooveSettings) => void
+}
+
+const GRIDS: Array<{ value: SwingGrid; label: string }> = [
+  { value: 16, label: '16ths' },
+  { value: 8, label: '8ths' },
+]
+
+const SELECT_CLASSES = 'px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white'
+
+// Per-track swing, groove templates and seeded humanize
+export function GroovePanel({ groove, onChange }: GroovePanelProps) {
+  const update = (patch: Partial<GrooveSettings>) => onChange({ ...groove, ...patch })
+  const template = templateFor(groove.swing)
+  const humanized = groove.timing > 0 || groove.velocity > 0
+
+  return (
+    <details className="text-xs text-gray-300">
+      <summary className="cursor-pointer text-white">
+        Groove
+        {groove.swing !== MIN_SWING && ` (swing ${Math.round(groove.swing)}%)`}
+        {humanized && ' (humanized)'}
+      </summary>
+      <div className="mt-2 space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={template?.name ?? ''}
+            onChange={(e) => {
+              const picked = GROOVE_TEMPLATES.find((t) => t.name === e.target.value)
+              if (picked) update({ swing: picked.swing })
+            }}
+            className={`flex-1 min-w-0 ${SELECT_CLASSES}`}
+            title="Groove template"
+          >
+            {!template && <option value="">Custom</option>}
+            {GROOVE_TEMPLATES.map((t) => (
+              <option key={t.name} value={t.name}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={groove.grid}
+            onChange={(e) => update({ grid: parseInt(e.target.value) as SwingGrid })}
+            className={SELECT_CLASSES}
+            title="Steps the swing applies to"
+          >
+            {GRIDS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1 text-white">
+          <span className="text-xs text-gray-300">Swing: {Math.round(groove.swing)}%</span>
+          <Slider
+            value={[groove.swing]}
+            onValueChange={([swing]) => update({ swing })}
+            min={MIN_SWING}
+            max={MAX_SWING}
+            step={1}
+          />
+        </div>
+        <div className="flex items-center gap-3 text-white">
+          <div className="flex-1 space-y-1">
+            <span className="text-xs text-gray-300">Timing: ±{Math.round(groove.timing * 100)}% step</span>
+            <Slider
+              value={[groove.timing]}
+              onValueChange={([timing]) => update({ timing })}
+              min={0}
+              max={0.5}
+              step={0.01}
+            />
+          </div>
+          <div className="flex-1 space-y-1">
+            <span className="text-xs text-gray-300">Velocity: -{Math.round(groove.velocity * 100)}%</span>
+            <Slider
+              value={[groove.velocity]}
+              onValueChange={([velocity]) => update({ velocity })}
+              min={0}
+              max={1}
+              step={0.01}
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span>Seed</span>
+          <input
+            type="number"
+            min={0}
+            value={groove.seed}
+            onChange={(e) => update({ seed: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-20 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+          />
+          <button
+            onClick={() => update({ seed: Math.floor(Math.random() * 100000) })}
+            className="p-0.5 text-gray-400 hover:text-white"
+            title="New random feel"
+          >
+            <Dices className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,70 @@
+import { History as HistoryIcon, Redo2, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface HistoryPanelProps {
+  entries: Array<{ label: string }>
+  position: number
+  onUndo: () => void
+  onRedo: () => void
+  // Move to the state after `position` entries
+  onJump: (position: number) => void
+}
+
+export function HistoryPanel({ entries, position, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg flex items-center gap-2">
+          <HistoryIcon className="h-4 w-4" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs text-gray-300">
+        <div className="flex gap-2">
+          <Button
+            onClick={onUndo}
+            disabled={position === 0}
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white flex-1"
+            title="Ctrl+Z"
+          >
+            <Undo2 className="mr-1 h-3 w-3" />
+            Undo
+          </Button>
+          <Button
+            onClick={onRedo}
+            disabled={position === entries.length}
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white flex-1"
+            title="Ctrl+Shift+Z"
+          >
+            <Redo2 className="mr-1 h-3 w-3" />
+            Redo
+          </Button>
+        </div>
+        <ol className="max-h-48 overflow-y-auto space-y-0.5">
+          {/* Newest first; position 0 is the state the project was opened in */}
+          {[...entries.map((entry, index) => ({ label: entry.label, position: index + 1 })), { label: 'Opened project', position: 0 }]
+            .sort((a, b) => b.position - a.position)
+            .map((item) => (
+              <li key={item.position}>
+                <button
+                  onClick={() => onJump(item.position)}
+                  className={`w-full text-left px-2 py-0.5 rounded ${
+                    item.position === position
+                      ? 'bg-white/20 text-white'
+                      : item.position > position
+                        ? 'text-gray-500 hover:bg-white/10'
+                        : 'hover:bg-white/10'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              </li>
+            ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
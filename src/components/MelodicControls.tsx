@@ -0,0 +1,111 @@
+import type { MelodicSettings } from '@/lib/melodic'
+import { ROOTS, SCALES, SYNTH_WAVEFORMS } from '@/lib/melodic'
+import { useSounds } from '@/hooks/useSoundNames'
+import { Slider } from '@/components/ui/slider'
+
+interface MelodicControlsProps {
+  melodic: MelodicSettings
+  onChange: (melodic: MelodicSettings) => void
+}
+
+const OCTAVES = [1, 2, 3, 4, 5, 6]
+
+// Envelope sliders: field, label, upper bound in the field's unit
+const ENVELOPE: Array<{ key: 'attack' | 'decay' | 'sustain' | 'release'; label: string; max: number }> = [
+  { key: 'attack', label: 'A', max: 2 },
+  { key: 'decay', label: 'D', max: 2 },
+  { key: 'sustain', label: 'S', max: 1 },
+  { key: 'release', label: 'R', max: 4 },
+]
+
+const SELECT_CLASSES = 'px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white'
+
+// Scale, voice and envelope of a melodic track
+export function MelodicControls({ melodic, onChange }: MelodicControlsProps) {
+  const samples = useSounds().filter((sound) => sound.type === 'sample')
+  const update = (patch: Partial<MelodicSettings>) => onChange({ ...melodic, ...patch })
+
+  return (
+    <div className="space-y-2 text-xs text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={melodic.root}
+          onChange={(e) => update({ root: e.target.value })}
+          className={SELECT_CLASSES}
+          title="Root"
+        >
+          {ROOTS.map((root) => (
+            <option key={root} value={root}>
+              {root}
+            </option>
+          ))}
+        </select>
+        <select
+          value={melodic.octave}
+          onChange={(e) => update({ octave: parseInt(e.target.value) })}
+          className={SELECT_CLASSES}
+          title="Octave of the root"
+        >
+          {OCTAVES.map((octave) => (
+            <option key={octave} value={octave}>
+              Oct {octave}
+            </option>
+          ))}
+        </select>
+        <select
+          value={melodic.scale}
+          onChange={(e) => update({ scale: e.target.value })}
+          className={`flex-1 min-w-0 ${SELECT_CLASSES}`}
+          title={melodic.scale === 'chromatic' ? 'Pattern holds note names, e.g. c3 e3 g3' : 'Pattern holds scale degrees, e.g. 0 2 4'}
+        >
+          {SCALES.map((scale) => (
+            <option key={scale} value={scale}>
+              {scale}
+            </option>
+          ))}
+        </select>
+        <select
+          value={melodic.sound}
+          onChange={(e) => update({ sound: e.target.value })}
+          className={`flex-1 min-w-0 ${SELECT_CLASSES}`}
+          title="Voice"
+        >
+          <optgroup label="Synths">
+            {SYNTH_WAVEFORMS.map((wave) => (
+              <option key={wave} value={wave}>
+                {wave}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Samples">
+            {/* Keep a saved sound selectable before its bank has loaded */}
+            {!SYNTH_WAVEFORMS.includes(melodic.sound) && !samples.some((s) => s.name === melodic.sound) && (
+              <option value={melodic.sound}>{melodic.sound}</option>
+            )}
+            {samples.map((sound) => (
+              <option key={sound.name} value={sound.name}>
+                {sound.name}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+      <div className="grid grid-cols-4 gap-3 text-white">
+        {ENVELOPE.map(({ key, label, max }) => (
+          <div key={key} className="space-y-1">
+            <span className="text-xs text-gray-300">
+              {label}: {key === 'sustain' ? `${Math.round(melodic.sustain * 100)}%` : `${melodic[key].toFixed(2)}s`}
+            </span>
+            <Slider
+              value={[melodic[key]]}
+              onValueChange={([value]) => update({ [key]: value })}
+              max={max}
+              min={0}
+              step={0.01}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react'
+import { Music, Plus, X } from 'lucide-react'
+import type { PatternInput } from '@/lib/tracks'
+import type { TempoSettings } from '@/lib/tempo'
+import type { DrumMap } from '@/lib/midiExport'
+import { buildStack } from '@/lib/tracks'
+import { cpsToBpm } from '@/lib/tempo'
+import { DEFAULT_DRUM_MAP, exportMidi, loadDrumMap, saveDrumMap } from '@/lib/midiExport'
+import { downloadBlob, safeFileName } from '@/lib/download'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface MidiExportProps {
+  tracks: Array<PatternInput>
+  tempo: TempoSettings
+  projectName: string
+}
+
+export function MidiExport({ tracks, tempo, projectName }: MidiExportProps) {
+  const [cycles, setCycles] = useState(4)
+  const [drumMap, setDrumMap] = useState<DrumMap>(loadDrumMap)
+  const [newSample, setNewSample] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const updateDrumMap = (next: DrumMap) => {
+    setDrumMap(next)
+    saveDrumMap(next)
+  }
+
+  const addMapping = () => {
+    const name = newSample.trim()
+    if (!name) return
+    updateDrumMap({ ...drumMap, [name]: drumMap[name] ?? 36 })
+    setNewSample('')
+  }
+
+  const removeMapping = (name: string) => {
+    const { [name]: _removed, ...rest } = drumMap
+    updateDrumMap(rest)
+  }
+
+  const exportFile = () => {
+    const { layers } = buildStack(tracks)
+    const exported = tracks
+      .filter((track) => track.id in layers)
+      .map((track) => ({ name: track.name, pattern: layers[track.id] }))
+    if (exported.length === 0) {
+      setError('No valid patterns to export')
+      return
+    }
+    setError(null)
+
+    const data = exportMidi(exported, {
+      cycles,
+      bpm: cpsToBpm(tempo.cps, tempo.beatsPerCycle),
+      beatsPerCycle: tempo.beatsPerCycle,
+      drumMap,
+    })
+    downloadBlob(new Blob([data], { type: 'audio/midi' }), `${safeFileName(projectName)}.mid`)
+  }
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg flex items-center gap-2">
+          <Music className="h-4 w-4" />
+          Export MIDI
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs text-gray-300">
+        <label className="flex items-center justify-between gap-2">
+          Cycles
+          <input
+            type="number"
+            value={cycles}
+            min={1}
+            max={256}
+            onChange={(e) => setCycles(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-20 px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+          />
+        </label>
+
+        {/* Drum Map */}
+        <details>
+          <summary className="cursor-pointer text-white">Drum map (sample → GM note)</summary>
+          <div className="mt-2 space-y-1">
+            {Object.entries(drumMap).map(([name, note]) => (
+              <div key={name} className="flex items-center gap-2">
+                <span className="flex-1 font-mono">{name}</span>
+                <input
+                  type="number"
+                  value={note}
+                  min={0}
+                  max={127}
+                  onChange={(e) =>
+                    updateDrumMap({ ...drumMap, [name]: Math.min(127, Math.max(0, parseInt(e.target.value) || 0)) })
+                  }
+                  className="w-16 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+                />
+                <button
+                  onClick={() => removeMapping(name)}
+                  className="text-gray-400 hover:text-white"
+                  title={`Remove ${name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2 pt-1">
+              <input
+                type="text"
+                value={newSample}
+                onChange={(e) => setNewSample(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addMapping()}
+                placeholder="sample name"
+                className="flex-1 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white font-mono"
+              />
+              <button onClick={addMapping} className="text-gray-400 hover:text-white" title="Add mapping">
+                <Plus className="h-3 w-3" />
+              </button>
+            </div>
+            <button
+              onClick={() => updateDrumMap(DEFAULT_DRUM_MAP)}
+              className="text-blue-300 hover:text-blue-200 hover:underline"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </details>
+
+        <Button
+          onClick={exportFile}
+          size="sm"
+          className="bg-white/10 hover:bg-white/20 text-white w-full"
+        >
+          <Music className="mr-1 h-3 w-3" />
+          Export .mid
+        </Button>
+        {error && <p className="text-red-400">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,95 @@
+import { Cable } from 'lucide-react'
+import type { MidiClockMode } from '@/lib/midiClock'
+import type { MidiPortInfo } from '@/hooks/useMidi'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+export interface MidiClockSettings {
+  mode: MidiClockMode
+  // Output port when sending, input port when following
+  portId: string
+}
+
+interface MidiPanelProps {
+  enabled: boolean
+  error: string | null
+  outputs: Array<MidiPortInfo>
+  inputs: Array<MidiPortInfo>
+  clock: MidiClockSettings
+  onEnable: () => void
+  onClockChange: (clock: MidiClockSettings) => void
+}
+
+export function MidiPanel({
+  enabled,
+  error,
+  outputs,
+  inputs,
+  clock,
+  onEnable,
+  onClockChange,
+}: MidiPanelProps) {
+  const ports = clock.mode === 'follow' ? inputs : outputs
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg flex items-center gap-2">
+          <Cable className="h-4 w-4" />
+          MIDI
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs text-gray-300">
+        {!enabled ? (
+          <Button
+            onClick={onEnable}
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white w-full"
+          >
+            <Cable className="mr-1 h-3 w-3" />
+            Enable MIDI
+          </Button>
+        ) : (
+          <>
+            <p>
+              {outputs.length} outputs • {inputs.length} inputs. Route tracks from each card.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1">
+                Clock
+                <select
+                  value={clock.mode}
+                  onChange={(e) =>
+                    onClockChange({ mode: e.target.value as MidiClockMode, portId: '' })
+                  }
+                  className="px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+                >
+                  <option value="off">Off</option>
+                  <option value="send">Send clock</option>
+                  <option value="follow">Follow clock</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Port
+                <select
+                  value={clock.portId}
+                  disabled={clock.mode === 'off'}
+                  onChange={(e) => onClockChange({ ...clock, portId: e.target.value })}
+                  className="px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+                >
+                  <option value="">Choose…</option>
+                  {ports.map((port) => (
+                    <option key={port.id} value={port.id}>
+                      {port.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </>
+        )}
+        {error && <p className="text-red-400">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
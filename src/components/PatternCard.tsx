@@ -0,0 +1,290 @@
+import { useMemo, useState } from 'react'
+import { ArrowDown, ArrowUp, Braces, Code, Drum, Grid3x3, Music, Piano, Trash2 } from 'lucide-react'
+import type { PatternInput } from '@/lib/tracks'
+import type { MidiPortInfo } from '@/hooks/useMidi'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Slider } from '@/components/ui/slider'
+import { PatternEditor } from '@/components/PatternEditor'
+import { StepGridEditor } from '@/components/StepGridEditor'
+import { MelodicControls } from '@/components/MelodicControls'
+import { EffectsPanel } from '@/components/EffectsPanel'
+import { GroovePanel } from '@/components/GroovePanel'
+import { TransformToolbar } from '@/components/TransformToolbar'
+import { DEFAULT_MELODIC } from '@/lib/melodic'
+import { validateMini } from '@/lib/miniValidation'
+import { useActiveSteps } from '@/hooks/useActiveSteps'
+import { useCodeVerdict } from '@/hooks/useCodeVerdict'
+
+interface PatternCardProps {
+  pattern: PatternInput
+  error?: string
+  // The track's compiled layer while playing, used to light up sounding steps
+  layer?: any
+  isPlaying: boolean
+  // True when another track is soloed and this one isn't
+  silencedBySolo: boolean
+  // Available MIDI outputs, empty until MIDI is enabled
+  midiOutputs: Array<MidiPortInfo>
+  onChange: (patch: Partial<PatternInput>) => void
+  onRemove: () => void
+  // Move the card up (-1) or down (+1) the list
+  onMove: (offset: number) => void
+  isFirst: boolean
+  isLast: boolean
+  // Caret position in the pattern field
+  onCursor: (caret: number) => void
+  // Ctrl+Enter in the pattern field
+  onEvaluate: () => void
+  // Ctrl+. in the pattern field
+  onHush: () => void
+}
+
+const placeholderFor = (track: PatternInput) => {
+  if (track.mode === 'code') return 'e.g. note("c e g b").s("sawtooth").lpf(800)'
+  if (track.melodic) return track.melodic.scale === 'chromatic' ? 'e.g. "c3 e3 g3 <b3 d4>"' : 'e.g. "0 2 4 <5 7>"'
+  return 'e.g. "bd sd [~ bd] sd" or "hh*8"'
+}
+
+const formatPan = (pan: number) => {
+  const offset = Math.round((pan - 0.5) * 200)
+  if (offset === 0) return 'C'
+  return offset < 0 ? `L${-offset}` : `R${offset}`
+}
+
+export function PatternCard({
+  pattern,
+  error,
+  layer,
+  isPlaying,
+  silencedBySolo,
+  midiOutputs,
+  onChange,
+  onRemove,
+  onMove,
+  isFirst,
+  isLast,
+  onCursor,
+  onEvaluate,
+  onHush,
+}: PatternCardProps) {
+  const isCode = pattern.mode === 'code'
+  const issue = useMemo(() => (isCode ? null : validateMini(pattern.pattern)), [isCode, pattern.pattern])
+  // Code is dry-run in a worker as you type
+  const verdict = useCodeVerdict(pattern.pattern, isCode)
+  const codeMessage = verdict && !verdict.ok && !('pending' in verdict) ? verdict.error : undefined
+  // Syntax problems are caught as you type; the compile error covers the rest
+  const message = issue?.message ?? codeMessage ?? error
+  // Step offsets only map back onto mini-notation text
+  const activeSteps = useActiveSteps(isCode ? undefined : layer, isPlaying)
+  const [view, setView] = useState<'code' | 'grid'>('code')
+  // The grid only knows drum sample steps
+  const gridAvailable = !isCode && !pattern.melodic
+  const showGrid = gridAvailable && view === 'grid'
+
+  return (
+    <Card
+      className={`bg-black/20 backdrop-blur-sm ${
+        message ? 'border-red-500/60' : 'border-white/10'
+      } ${pattern.muted || silencedBySolo ? 'opacity-60' : ''}`}
+    >
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <input
+            type="text"
+            value={pattern.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            className="text-lg font-semibold bg-transparent text-white border-none outline-none hover:bg-white/10 px-2 py-1 rounded flex-1"
+            placeholder="Pattern Name"
+          />
+          <Button
+            onClick={() => onMove(-1)}
+            disabled={isFirst}
+            size="sm"
+            className="h-7 w-7 p-0 ml-2 bg-white/10 hover:bg-white/20 text-white"
+            title="Move up"
+          >
+            <ArrowUp className="h-3 w-3" />
+          </Button>
+          <Button
+            onClick={() => onMove(1)}
+            disabled={isLast}
+            size="sm"
+            className="h-7 w-7 p-0 ml-1 bg-white/10 hover:bg-white/20 text-white"
+            title="Move down"
+          >
+            <ArrowDown className="h-3 w-3" />
+          </Button>
+          <Button
+            onClick={onRemove}
+            size="sm"
+            variant="destructive"
+            className="h-7 w-7 p-0 ml-2"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        {/* Pattern Input */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-medium text-gray-300">
+              {isCode ? 'Strudel Code:' : 'Strudel Pattern:'}
+            </label>
+            <div className="flex gap-1">
+              {!isCode && (
+                <Button
+                  onClick={() => onChange({ melodic: pattern.melodic ? null : DEFAULT_MELODIC })}
+                  size="sm"
+                  className="h-6 px-2 bg-white/10 hover:bg-white/20 text-white text-xs"
+                  title={pattern.melodic ? 'Play sample names as drums' : 'Play scale degrees or notes on a synth'}
+                >
+                  {pattern.melodic ? <Drum className="mr-1 h-3 w-3" /> : <Piano className="mr-1 h-3 w-3" />}
+                  {pattern.melodic ? 'Drums' : 'Melodic'}
+                </Button>
+              )}
+              <Button
+                onClick={() => {
+                  setView('code')
+                  onChange({ mode: isCode ? 'mini' : 'code' })
+                }}
+                size="sm"
+                className="h-6 px-2 bg-white/10 hover:bg-white/20 text-white text-xs"
+                title={isCode ? 'Play the text as sample mini-notation' : 'Evaluate the text as Strudel JavaScript'}
+              >
+                {isCode ? <Music className="mr-1 h-3 w-3" /> : <Braces className="mr-1 h-3 w-3" />}
+                {isCode ? 'Mini' : 'JS'}
+              </Button>
+              {gridAvailable && (
+                <Button
+                  onClick={() => setView(showGrid ? 'code' : 'grid')}
+                  size="sm"
+                  className="h-6 px-2 bg-white/10 hover:bg-white/20 text-white text-xs"
+                  title={showGrid ? 'Edit as mini-notation' : 'Edit as a step grid'}
+                >
+                  {showGrid ? <Code className="mr-1 h-3 w-3" /> : <Grid3x3 className="mr-1 h-3 w-3" />}
+                  {showGrid ? 'Code' : 'Grid'}
+                </Button>
+              )}
+            </div>
+          </div>
+          {showGrid ? (
+            <StepGridEditor value={pattern.pattern} onChange={(value) => onChange({ pattern: value })} />
+          ) : (
+            <PatternEditor
+              value={pattern.pattern}
+              language={isCode ? 'js' : 'mini'}
+              issue={issue}
+              activeSteps={activeSteps}
+              onChange={(value) => onChange({ pattern: value })}
+              onCaretChange={onCursor}
+              onEvaluate={onEvaluate}
+              onHush={onHush}
+              placeholder={placeholderFor(pattern)}
+            />
+          )}
+          {message && (
+            <p className="text-xs text-red-400 font-mono break-words">{message}</p>
+          )}
+        </div>
+
+        <TransformToolbar transforms={pattern.transforms} onChange={(transforms) => onChange({ transforms })} />
+
+        {/* Instrument */}
+        {pattern.melodic && !isCode && (
+          <MelodicControls melodic={pattern.melodic} onChange={(melodic) => onChange({ melodic })} />
+        )}
+
+        <GroovePanel groove={pattern.groove} onChange={(groove) => onChange({ groove })} />
+        <EffectsPanel effects={pattern.effects} onChange={(effects) => onChange({ effects })} />
+
+        {/* Mixer Strip */}
+        <div className="flex items-center gap-3 text-white">
+          <div className="flex-1 space-y-1">
+            <span className="text-xs text-gray-300">Gain: {Math.round(pattern.gain * 100)}%</span>
+            <Slider
+              value={[pattern.gain]}
+              onValueChange={([gain]) => onChange({ gain })}
+              max={1.5}
+              min={0}
+              step={0.01}
+            />
+          </div>
+          <div className="flex-1 space-y-1">
+            <span className="text-xs text-gray-300">Pan: {formatPan(pattern.pan)}</span>
+            <Slider
+              value={[pattern.pan]}
+              onValueChange={([pan]) => onChange({ pan })}
+              max={1}
+              min={0}
+              step={0.01}
+            />
+          </div>
+          <Button
+            onClick={() => onChange({ muted: !pattern.muted })}
+            size="sm"
+            className={`h-7 w-7 p-0 ${
+              pattern.muted ? 'bg-red-600 hover:bg-red-700' : 'bg-white/10 hover:bg-white/20'
+            } text-white`}
+            title="Mute"
+          >
+            M
+          </Button>
+          <Button
+            onClick={() => onChange({ soloed: !pattern.soloed })}
+            size="sm"
+            className={`h-7 w-7 p-0 ${
+              pattern.soloed ? 'bg-yellow-500 hover:bg-yellow-600 text-black' : 'bg-white/10 hover:bg-white/20 text-white'
+            }`}
+            title="Solo"
+          >
+            S
+          </Button>
+        </div>
+
+        {/* MIDI Routing */}
+        {midiOutputs.length > 0 && (
+          <div className="flex items-center gap-2 text-xs text-gray-300">
+            <span>Output:</span>
+            <select
+              value={pattern.midi?.outputId ?? ''}
+              onChange={(e) =>
+                onChange({
+                  midi: e.target.value
+                    ? { outputId: e.target.value, channel: pattern.midi?.channel ?? 1 }
+                    : null,
+                })
+              }
+              className="flex-1 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+            >
+              <option value="">Built-in sampler</option>
+              {midiOutputs.map((output) => (
+                <option key={output.id} value={output.id}>
+                  {output.name}
+                </option>
+              ))}
+            </select>
+            {pattern.midi && (
+              <select
+                value={pattern.midi.channel}
+                onChange={(e) =>
+                  pattern.midi &&
+                  onChange({ midi: { ...pattern.midi, channel: parseInt(e.target.value) } })
+                }
+                className="px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+                title="MIDI channel"
+              >
+                {Array.from({ length: 16 }, (_, i) => i + 1).map((channel) => (
+                  <option key={channel} value={channel}>
+                    Ch {channel}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
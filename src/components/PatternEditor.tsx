@@ -0,0 +1,216 @@
+import { useLayoutEffect, useMemo, useRef, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import type { PatternIssue } from '@/lib/miniValidation'
+import type { Decoration, TokenKind } from '@/lib/miniHighlight'
+import type { StepRange } from '@/hooks/useActiveSteps'
+import { decorate, matchBracket, tokenizeMini, wordAt } from '@/lib/miniHighlight'
+import { useSoundNames } from '@/hooks/useSoundNames'
+
+interface PatternEditorProps {
+  value: string
+  // Mini-notation gets token colours; JavaScript is shown plain
+  language?: 'mini' | 'js'
+  issue: PatternIssue | null
+  // Steps currently sounding, lit up while playing
+  activeSteps?: Array<StepRange>
+  onChange: (value: string) => void
+  // Caret moves, so other panels can insert where the user was typing
+  onCaretChange?: (caret: number) => void
+  // Ctrl/Cmd+Enter
+  onEvaluate: () => void
+  // Ctrl/Cmd+.
+  onHush: () => void
+  placeholder?: string
+}
+
+// Shared by the textarea and the overlay so their glyphs line up exactly
+const TEXT_CLASSES = 'px-2 py-1 font-mono text-sm whitespace-pre-wrap break-words'
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  step: 'text-white',
+  rest: 'text-gray-500',
+  group: 'text-sky-400',
+  alternation: 'text-fuchsia-400',
+  polymeter: 'text-teal-400',
+  euclid: 'text-orange-400',
+  operator: 'text-yellow-300',
+  number: 'text-lime-300',
+}
+
+const MAX_SUGGESTIONS = 8
+// Code fields grow with their text up to this height, then scroll
+const MAX_CODE_HEIGHT_PX = 320
+const NO_STEPS: Array<StepRange> = []
+
+// Mini-notation editor: a transparent textarea over a highlighted copy of the
+// text, with sample name completion and bracket matching
+export function PatternEditor({
+  value,
+  language = 'mini',
+  issue,
+  activeSteps = NO_STEPS,
+  onChange,
+  onCaretChange,
+  onEvaluate,
+  onHush,
+  placeholder,
+}: PatternEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const overlayRef = useRef<HTMLDivElement>(null)
+  // Caret to restore after accepting a completion re-renders the text
+  const pendingCaret = useRef<number | null>(null)
+  const [caret, setCaret] = useState<number | null>(null)
+  const [dismissed, setDismissed] = useState(true)
+  const [selected, setSelected] = useState(0)
+  const soundNames = useSoundNames()
+
+  // Sample names only complete in mini-notation; in code Enter and Tab keep their usual job
+  const word = caret === null || language !== 'mini' ? null : wordAt(value, caret)
+  const suggestions = useMemo(() => {
+    if (!word) return []
+    const prefix = word.word.toLowerCase()
+    return soundNames.filter((name) => name.startsWith(prefix) && name !== prefix).slice(0, MAX_SUGGESTIONS)
+  }, [soundNames, word?.word])
+  const showSuggestions = !dismissed && suggestions.length > 0
+
+  const segments = useMemo(() => {
+    const tokens = language === 'mini' ? tokenizeMini(value) : []
+    const decorations: Array<Decoration> = tokens.map(({ kind, start, end }) => ({
+      start,
+      end,
+      className: TOKEN_CLASSES[kind],
+    }))
+    activeSteps.forEach(({ start, end }) =>
+      decorations.push({ start, end, className: 'bg-green-400/40 rounded-sm' }),
+    )
+    const brackets = caret === null ? null : matchBracket(value, caret)
+    brackets?.forEach((index) =>
+      decorations.push({ start: index, end: index + 1, className: 'bg-white/25 rounded-sm' }),
+    )
+    if (issue) {
+      decorations.push({ ...issue, className: 'underline decoration-wavy decoration-red-500' })
+    }
+    return decorate(value, decorations)
+  }, [value, language, caret, issue, activeSteps])
+
+  // Code grows with its text, mini-notation stays a fixed size
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.style.height = ''
+    if (language === 'js') textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_CODE_HEIGHT_PX)}px`
+  }, [value, language])
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    if (textarea && pendingCaret.current !== null) {
+      textarea.setSelectionRange(pendingCaret.current, pendingCaret.current)
+      setCaret(pendingCaret.current)
+      pendingCaret.current = null
+    }
+  }, [value])
+
+  const accept = (name: string) => {
+    if (!word || caret === null) return
+    pendingCaret.current = word.start + name.length
+    onChange(value.slice(0, word.start) + name + value.slice(caret))
+    setDismissed(true)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+      e.preventDefault()
+      onEvaluate()
+      return
+    }
+    if ((e.ctrlKey || e.metaKey) && e.key === '.') {
+      e.preventDefault()
+      onHush()
+      return
+    }
+    if (!showSuggestions) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setSelected((index) => (index + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      accept(suggestions[Math.min(selected, suggestions.length - 1)])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setDismissed(true)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div
+        className={`relative ${language === 'js' ? 'min-h-12' : 'h-12'} bg-black/30 border border-white/20 rounded-md overflow-hidden`}
+      >
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className={`absolute inset-0 overflow-hidden pointer-events-none ${TEXT_CLASSES}`}
+        >
+          {segments.map((segment) => (
+            <span key={segment.start} className={segment.className}>
+              {segment.text}
+            </span>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setCaret(e.target.selectionStart)
+            setDismissed(false)
+            setSelected(0)
+          }}
+          onSelect={(e) => {
+            setCaret(e.currentTarget.selectionStart)
+            onCaretChange?.(e.currentTarget.selectionStart)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => {
+            setCaret(null)
+            setDismissed(true)
+          }}
+          // Keep the highlighting under the text when the field scrolls
+          onScroll={(e) => {
+            if (overlayRef.current) overlayRef.current.scrollTop = e.currentTarget.scrollTop
+          }}
+          spellCheck={false}
+          // Undo here steps through the project history rather than the field's own
+          data-history-field
+          aria-invalid={issue !== null}
+          aria-autocomplete={language === 'mini' ? 'list' : 'none'}
+          className={`relative block w-full h-full bg-transparent text-transparent caret-white placeholder-gray-400 resize-none outline-none ${TEXT_CLASSES}`}
+          placeholder={placeholder}
+        />
+      </div>
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute z-10 left-0 top-full mt-1 min-w-32 max-h-48 overflow-y-auto bg-gray-900 border border-white/20 rounded-md font-mono text-xs text-white shadow-lg"
+        >
+          {suggestions.map((name, index) => (
+            <li
+              key={name}
+              role="option"
+              aria-selected={index === selected}
+              // mousedown so the textarea doesn't blur first
+              onMouseDown={(e) => {
+                e.preventDefault()
+                accept(name)
+              }}
+              className={`px-2 py-0.5 cursor-pointer ${index === selected ? 'bg-white/20' : 'hover:bg-white/10'}`}
+            >
+              {name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
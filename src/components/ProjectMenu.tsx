@@ -0,0 +1,170 @@
+import { useRef, useState } from 'react'
+import { Check, Copy, Download, FilePlus, FolderOpen, Link2, Trash2, Upload } from 'lucide-react'
+import type { ProjectSummary } from '@/lib/projects'
+import type { FieldError } from '@/lib/projectFile'
+import { PROJECT_FILE_EXTENSION } from '@/lib/projectFile'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface ProjectMenuProps {
+  projects: Array<ProjectSummary>
+  currentId: string
+  currentName: string
+  onSelect: (id: string) => void
+  onRename: (name: string) => void
+  onCreate: () => void
+  onDuplicate: () => void
+  onDelete: () => void
+  onShare: () => Promise<void>
+  // Why the share link the page was opened with couldn't be loaded
+  shareError: string | null
+  onExport: () => void
+  // Resolves to the problems found in the file, empty when it was imported
+  onImport: (file: File) => Promise<Array<FieldError>>
+}
+
+export function ProjectMenu({
+  projects,
+  currentId,
+  currentName,
+  onSelect,
+  onRename,
+  onCreate,
+  onDuplicate,
+  onDelete,
+  onShare,
+  shareError,
+  onExport,
+  onImport,
+}: ProjectMenuProps) {
+  const [copied, setCopied] = useState(false)
+  const [copyError, setCopyError] = useState<string | null>(null)
+  const [importErrors, setImportErrors] = useState<Array<FieldError>>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setImportErrors(await onImport(file))
+    // Allow picking the same file again after fixing it
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+  // Most recently edited first
+  const sorted = [...projects].sort((a, b) => b.updatedAt - a.updatedAt)
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg flex items-center gap-2">
+          <FolderOpen className="h-4 w-4" />
+          Projects
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          type="text"
+          value={currentName}
+          onChange={(e) => onRename(e.target.value)}
+          className="w-full px-2 py-1 bg-black/30 border border-white/20 rounded-md text-white text-sm"
+          placeholder="Project Name"
+        />
+        <select
+          value={currentId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="w-full px-2 py-1 bg-black/30 border border-white/20 rounded-md text-white text-sm"
+        >
+          {sorted.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name || 'Untitled'}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <Button
+            onClick={onCreate}
+            size="sm"
+            className="bg-blue-600 hover:bg-blue-700 text-white flex-1"
+          >
+            <FilePlus className="mr-1 h-3 w-3" />
+            New
+          </Button>
+          <Button
+            onClick={onDuplicate}
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white flex-1"
+          >
+            <Copy className="mr-1 h-3 w-3" />
+            Duplicate
+          </Button>
+          <Button
+            onClick={onDelete}
+            size="sm"
+            variant="destructive"
+            className="flex-1"
+          >
+            <Trash2 className="mr-1 h-3 w-3" />
+            Delete
+          </Button>
+        </div>
+        <Button
+          onClick={() =>
+            onShare()
+              .then(() => {
+                setCopyError(null)
+                setCopied(true)
+                setTimeout(() => setCopied(false), 2000)
+              })
+              .catch((error) => {
+                console.error('Error copying share link:', error)
+                setCopyError('Could not copy the share link.')
+              })
+          }
+          size="sm"
+          className="bg-white/10 hover:bg-white/20 text-white w-full"
+        >
+          {copied ? <Check className="mr-1 h-3 w-3" /> : <Link2 className="mr-1 h-3 w-3" />}
+          {copied ? 'Link copied!' : 'Copy share link'}
+        </Button>
+        {(copyError ?? shareError) && <p className="text-xs text-red-400">{copyError ?? shareError}</p>}
+        <div className="flex gap-2">
+          <Button
+            onClick={onExport}
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white flex-1"
+          >
+            <Download className="mr-1 h-3 w-3" />
+            Export project
+          </Button>
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white flex-1"
+          >
+            <Upload className="mr-1 h-3 w-3" />
+            Import project
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+        {importErrors.length > 0 && (
+          <div className="text-xs text-red-400 space-y-1">
+            <p className="font-semibold">Could not import this file:</p>
+            <ul className="font-mono space-y-0.5">
+              {importErrors.map((error, index) => (
+                <li key={index}>
+                  {error.path ? `${error.path}: ` : ''}
+                  {error.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <p className="text-xs text-gray-400">Changes are saved automatically in this browser.</p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,206 +1,197 @@
-import React, { useEffect, useRef } from 'react'
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { noteToMidi } from '@strudel/web'
 import { drawPianoroll } from '@strudel/draw'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { currentCycle } from '@/lib/strudel'
 
-interface PunchcardData {
-  time: number
-  value: string
-  name?: string
+export interface PunchcardTrack {
+  id: string
+  name: string
+  pattern: any // The track's compiled Strudel pattern
 }
 
 interface PunchcardProps {
-  data: Array<PunchcardData>
+  tracks: Array<PunchcardTrack>
   isPlaying: boolean
-  pattern?: any // The actual Strudel pattern for more advanced drawing
-  currentTime?: number
+  // How many cycles the visible window covers at first
+  initialCycles?: number
 }
 
-export const Punchcard: React.FC<PunchcardProps> = ({ data, isPlaying, pattern, currentTime = 0 }) => {
+const CYCLE_OPTIONS = [1, 2, 4, 8, 16]
+const STEPS_PER_CYCLE = 4 // subdivision grid lines
+const LABEL_WIDTH = 110
+
+const colors = [
+  '#8b5cf6', // purple
+  '#06b6d4', // cyan
+  '#10b981', // emerald
+  '#f59e0b', // amber
+  '#ef4444', // red
+  '#ec4899', // pink
+]
+
+// Haps starting inside [from, to). Fragments of haps that began earlier are left out
+// so every block is drawn once, from its whole.
+const queryLane = (pattern: any, from: number, to: number): Array<any> => {
+  try {
+    return pattern.queryArc(from, to).filter((hap: any) => hap.whole && hap.hasOnset())
+  } catch (error) {
+    console.warn('Error querying pattern for punchcard:', error)
+    return []
+  }
+}
+
+// MIDI pitch of a hap, or null for unpitched (drum) haps
+const hapPitch = (hap: any): number | null => {
+  const value = hap.value
+  if (typeof value !== 'object') return null
+  if (typeof value.freq === 'number') return 69 + 12 * Math.log2(value.freq / 440)
+  if (typeof value.note === 'number') return value.note
+  if (typeof value.note === 'string') {
+    try {
+      return noteToMidi(value.note)
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+// Narrowest pitch range a lane shows, so a two-note line isn't drawn as fat bars
+const MIN_PITCH_SPAN = 12
+
+// Pitch range that fits every note, padded and widened around its centre
+const pitchRange = (pitches: Array<number>) => {
+  const low = Math.floor(Math.min(...pitches))
+  const high = Math.ceil(Math.max(...pitches))
+  const widen = Math.max(0, MIN_PITCH_SPAN - (high - low)) / 2
+  return { minMidi: Math.floor(low - widen) - 1, maxMidi: Math.ceil(high + widen) + 1 }
+}
+
+export const Punchcard: React.FC<PunchcardProps> = ({ tracks, isPlaying, initialCycles = 4 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  // CSS pixel size of the canvas, kept in sync by the ResizeObserver below
+  const sizeRef = useRef({ width: 0, height: 0 })
+  // Scratch canvas each pitched lane is drawn into before being copied across
+  const laneCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [cycles, setCycles] = useState(initialCycles)
 
-  useEffect(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  const draw = useCallback((time: number) => {
+    const ctx = canvasRef.current?.getContext('2d')
+    const { width, height } = sizeRef.current
+    if (!ctx || width === 0 || height === 0) return // Skip if not visible yet
 
-    // Set up high DPI canvas
-    const rect = canvas.getBoundingClientRect()
-    if (rect.width === 0 || rect.height === 0) return // Skip if not visible yet
-    
     const dpr = window.devicePixelRatio || 1
-    canvas.width = rect.width * dpr
-    canvas.height = rect.height * dpr
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
-    
-    ctx.scale(dpr, dpr)
-    canvas.style.width = rect.width + 'px'
-    canvas.style.height = rect.height + 'px'
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
 
     // Clear canvas with a visible background
     ctx.fillStyle = '#111827' // dark gray background
-    ctx.fillRect(0, 0, rect.width, rect.height)
-
-    console.log('Canvas rendering:', { 
-      hasPattern: !!pattern, 
-      dataLength: data.length, 
-      canvasSize: { width: rect.width, height: rect.height }
-    })
+    ctx.fillRect(0, 0, width, height)
 
-    // Always try custom drawing first for debugging
-    drawCustomVisualization(ctx, data, currentTime, rect.width, rect.height)
-
-    // Also try Strudel's drawPianoroll if pattern exists
-    if (pattern && typeof pattern.queryArc === 'function') {
-      try {
-        const from = Math.max(0, currentTime - 2)
-        const to = currentTime + 2
-        const haps = pattern.queryArc(from, to)
-        
-        console.log('Strudel haps:', haps)
-        
-        if (haps && haps.length > 0) {
-          // Overlay Strudel drawing on top of custom drawing
-          drawPianoroll({
-            haps,
-            time: currentTime,
-            ctx,
-            drawTime: [-2, 2],
-            cycles: 4,
-            playhead: 0.5,
-            fold: 1,
-            labels: true,
-            fill: 0.8,
-            fillActive: 1,
-            strokeActive: 1,
-            active: '#8b5cf6',
-            inactive: '#374151',
-            background: 'transparent',
-            playheadColor: '#ffffff',
-            fontFamily: 'monospace',
-            autorange: 1,
-            vertical: 0
-          })
-        }
-      } catch (error) {
-        console.warn('Error with Strudel drawPianoroll:', error)
-      }
-    }
-  }, [data, isPlaying, pattern, currentTime])
-
-  const drawCustomVisualization = (
-    ctx: CanvasRenderingContext2D, 
-    eventData: Array<PunchcardData>, 
-    time: number,
-    width: number,
-    height: number
-  ) => {
-    console.log('Drawing custom visualization:', { eventData, time, width, height })
-    
-    // Always draw something, even if no data
-    if (eventData.length === 0) {
-      // Draw a message indicating no data
+    if (tracks.length === 0) {
       ctx.fillStyle = '#6b7280'
       ctx.font = '16px monospace'
       ctx.textAlign = 'center'
-      ctx.fillText('No pattern data available', width / 2, height / 2)
-      
-      // Draw some sample bars to show it's working
-      for (let i = 0; i < 4; i++) {
-        ctx.fillStyle = `rgba(139, 92, 246, ${0.3 + i * 0.1})`
-        ctx.fillRect(i * (width / 4) + 10, height * 0.7, width / 4 - 20, 20)
-      }
+      ctx.fillText('Press Play All to see your tracks', width / 2, height / 2)
       return
     }
 
-    // Get unique instruments and assign colors
-    const instruments = [...new Set(eventData.map(d => d.value))]
-    const colors = [
-      '#8b5cf6', // purple - bd (kick)
-      '#06b6d4', // cyan - sd (snare)
-      '#10b981', // emerald - hh (hihat)
-      '#f59e0b', // amber - oh (open hihat)
-      '#ef4444', // red
-      '#ec4899', // pink
-    ]
-
-    const trackHeight = Math.max(40, height / Math.max(instruments.length, 1))
-    const beatsVisible = 4 // Show 4 beats
-    const timeScale = width / beatsVisible
-
-    // Draw beat grid first
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)'
-    ctx.lineWidth = 1
-    for (let i = 0; i <= beatsVisible; i++) {
-      const x = i * (width / beatsVisible)
-      ctx.beginPath()
-      ctx.moveTo(x, 0)
-      ctx.lineTo(x, height)
-      ctx.stroke()
-    }
+    // The window pages forward by whole windows, like the old 4-beat view
+    const from = Math.floor(time / cycles) * cycles
+    const to = from + cycles
+    const gridWidth = width - LABEL_WIDTH
+    const cycleWidth = gridWidth / cycles
+    const toX = (t: number) => LABEL_WIDTH + (t - from) * cycleWidth
+    const laneHeight = height / tracks.length
 
-    // Draw subdivisions (quarter notes)
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)'
-    for (let i = 0; i < beatsVisible * 4; i++) {
-      const x = i * (width / (beatsVisible * 4))
+    // Draw cycle grid and subdivisions first
+    for (let i = 0; i <= cycles * STEPS_PER_CYCLE; i++) {
+      const x = LABEL_WIDTH + i * (cycleWidth / STEPS_PER_CYCLE)
+      ctx.strokeStyle = i % STEPS_PER_CYCLE === 0 ? 'rgba(255, 255, 255, 0.15)' : 'rgba(255, 255, 255, 0.05)'
+      ctx.lineWidth = 1
       ctx.beginPath()
       ctx.moveTo(x, 0)
       ctx.lineTo(x, height)
       ctx.stroke()
     }
 
-    instruments.forEach((instrument, index) => {
-      const y = index * trackHeight
+    tracks.forEach((track, index) => {
+      const y = index * laneHeight
       const color = colors[index % colors.length]
-      
-      // Draw track background
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.05)'
-      ctx.fillRect(0, y, width, trackHeight - 2)
-      
-      // Draw instrument label
+
+      // Draw lane background
+      ctx.fillStyle = index % 2 === 0 ? 'rgba(255, 255, 255, 0.05)' : 'rgba(255, 255, 255, 0.02)'
+      ctx.fillRect(0, y, width, laneHeight - 2)
+
+      // Draw track label
       ctx.fillStyle = '#d1d5db'
-      ctx.font = '14px monospace'
+      ctx.font = '13px monospace'
       ctx.textAlign = 'left'
-      ctx.fillText(instrument, 8, y + 25)
-      
-      // Draw events for this instrument
-      eventData
-        .filter(event => event.value === instrument)
-        .forEach(event => {
-          const x = (event.time % beatsVisible) * timeScale
-          const eventWidth = Math.max(12, timeScale / 8) // Make events more visible
-          const eventHeight = trackHeight * 0.5
-          
-          // Highlight active events
-          const isActive = isPlaying && Math.abs((time % beatsVisible) - (event.time % beatsVisible)) < 0.1
-          
-          if (isActive) {
-            // Draw glow effect for active events
-            ctx.shadowColor = color
-            ctx.shadowBlur = 10
-            ctx.fillStyle = color
-          } else {
-            ctx.shadowBlur = 0
-            ctx.fillStyle = isPlaying ? `${color}80` : color // Semi-transparent when playing but not active
-          }
-          
-          ctx.fillRect(x, y + trackHeight * 0.3, eventWidth, eventHeight)
-          
-          // Reset shadow
-          ctx.shadowBlur = 0
+      ctx.textBaseline = 'middle'
+      ctx.fillText(track.name, 8, y + laneHeight / 2, LABEL_WIDTH - 16)
+
+      const haps = queryLane(track.pattern, from, to)
+      const pitches = haps.map(hapPitch)
+
+      // Melodic lanes are a piano roll, pitch rising up the lane
+      if (haps.length > 0 && pitches.every((pitch) => pitch !== null)) {
+        const lane = (laneCanvasRef.current ??= document.createElement('canvas'))
+        lane.width = Math.max(1, Math.round(gridWidth * dpr))
+        lane.height = Math.max(1, Math.round((laneHeight - 2) * dpr))
+        const laneCtx = lane.getContext('2d')
+        if (!laneCtx) return
+        drawPianoroll({
+          haps,
+          time,
+          ctx: laneCtx,
+          // Lookbehind/lookahead around `time` that line up with the paged window
+          drawTime: [time - from, to - time],
+          fold: 0,
+          ...pitchRange(pitches),
+          active: color,
+          inactive: isPlaying ? `${color}80` : color,
+          fillActive: 1,
+          background: 'transparent',
+          playheadColor: 'transparent',
         })
+        ctx.drawImage(lane, LABEL_WIDTH, y, gridWidth, laneHeight - 2)
+        return
+      }
+
+      // One block per hap, spanning its whole
+      haps.forEach((hap) => {
+        const begin = hap.whole.begin.valueOf()
+        const end = hap.whole.end.valueOf()
+        const x = toX(begin)
+        const blockWidth = Math.max(2, Math.min(toX(end), width) - x - 1)
+        const isActive = isPlaying && begin <= time && time < end
+
+        if (isActive) {
+          // Draw glow effect for active haps
+          ctx.shadowColor = color
+          ctx.shadowBlur = 10
+          ctx.fillStyle = color
+        } else {
+          ctx.shadowBlur = 0
+          ctx.fillStyle = isPlaying ? `${color}80` : color // Semi-transparent when playing but not active
+        }
+        ctx.fillRect(x, y + laneHeight * 0.2, blockWidth, laneHeight * 0.6 - 2)
+
+        // Reset shadow
+        ctx.shadowBlur = 0
+      })
     })
 
     // Draw time indicator/playhead if playing
     if (isPlaying) {
-      const currentX = (time % beatsVisible) * timeScale
+      const currentX = toX(time)
       ctx.strokeStyle = '#ffffff'
       ctx.lineWidth = 3
-      ctx.setLineDash([])
       ctx.beginPath()
       ctx.moveTo(currentX, 0)
       ctx.lineTo(currentX, height)
       ctx.stroke()
-      
+
       // Add a small triangle at the top for the playhead
       ctx.fillStyle = '#ffffff'
       ctx.beginPath()
@@ -210,8 +201,41 @@ export const Punchcard: React.FC<PunchcardProps> = ({ data, isPlaying, pattern,
       ctx.closePath()
       ctx.fill()
     }
-  }
-  // Always show the component, even with no data (for debugging)
+  }, [tracks, isPlaying, cycles])
+
+  // Match the canvas backing store to its displayed size (high DPI aware)
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      const dpr = window.devicePixelRatio || 1
+      canvas.width = width * dpr
+      canvas.height = height * dpr
+      sizeRef.current = { width, height }
+      draw(currentCycle())
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [draw])
+
+  // Redraw every frame while playing, following the scheduler's current cycle
+  useEffect(() => {
+    if (!isPlaying) {
+      draw(currentCycle())
+      return
+    }
+
+    let frame = 0
+    const loop = () => {
+      draw(currentCycle())
+      frame = requestAnimationFrame(loop)
+    }
+    loop()
+    return () => cancelAnimationFrame(frame)
+  }, [draw, isPlaying])
+
   return (
     <Card className="w-full max-w-4xl mx-auto bg-black/20 backdrop-blur-sm border-white/10">
       <CardHeader>
@@ -220,28 +244,37 @@ export const Punchcard: React.FC<PunchcardProps> = ({ data, isPlaying, pattern,
           {isPlaying && <div className="w-2 h-2 bg-green-400 rounded-full animate-ping" />}
         </CardTitle>
         <CardDescription className="text-gray-300">
-          Canvas-based visualization showing your pattern timeline
+          One lane per track, each block spanning its hap; melodic lanes show pitch
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="text-xs text-gray-400 mb-4">
-          {data.length} events • Canvas-based drawing • {isPlaying ? 'Playing' : 'Stopped'} • Pattern: {pattern ? 'Available' : 'Not available'}
+        <div className="flex items-center justify-between text-xs text-gray-400">
+          <span>
+            {tracks.length} tracks • {isPlaying ? 'Playing' : 'Stopped'}
+          </span>
+          <label className="flex items-center gap-1">
+            Cycles visible
+            <select
+              value={cycles}
+              onChange={(e) => setCycles(parseInt(e.target.value))}
+              className="px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+            >
+              {CYCLE_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
-        
+
         <div className="relative">
           <canvas
             ref={canvasRef}
             className="w-full border border-white/10 rounded bg-gray-900"
-            style={{ height: '300px', minHeight: '300px' }}
+            style={{ height: `${Math.max(120, tracks.length * 60)}px` }}
           />
         </div>
-        
-        <div className="text-xs text-gray-500 pt-4 border-t border-white/10">
-          Canvas visualization powered by Strudel's drawing engine. Each track represents a different instrument.
-          {data.length === 0 && !pattern && (
-            <div className="text-yellow-400 mt-2">Debug: No pattern data or Strudel pattern available</div>
-          )}
-        </div>
       </CardContent>
     </Card>
   )
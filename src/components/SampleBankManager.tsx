@@ -0,0 +1,252 @@
+import { useEffect, useRef, useState } from 'react'
+import { Library, Link2, Play, Plus, Trash2, Upload } from 'lucide-react'
+import type { DragEvent } from 'react'
+import type { DroppedFile, SampleBank } from '@/lib/sampleBanks'
+import {
+  bankSounds,
+  bankStatus,
+  createLocalBank,
+  droppedToSamples,
+  loadBank,
+  loadBanks,
+  newBankId,
+  saveBanks,
+  unregisterBank,
+} from '@/lib/sampleBanks'
+import { auditionSound, strudelReady } from '@/lib/strudel'
+import { useSoundNames } from '@/hooks/useSoundNames'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+// Read a dropped file or folder, recursing into folders
+async function readEntry(entry: FileSystemEntry, path: string): Promise<Array<DroppedFile>> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    )
+    return [{ file, path }]
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const children: Array<FileSystemEntry> = []
+  // readEntries hands out folders in batches until it returns an empty one
+  for (;;) {
+    const batch = await new Promise<Array<FileSystemEntry>>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    )
+    if (batch.length === 0) break
+    children.push(...batch)
+  }
+  const nested = await Promise.all(children.map((child) => readEntry(child, `${path}/${child.name}`)))
+  return nested.flat()
+}
+
+const STATUS_LABELS = {
+  loading: 'Loading…',
+  loaded: 'Loaded',
+  error: 'Failed to load',
+}
+
+export function SampleBankManager() {
+  const [banks, setBanks] = useState(loadBanks)
+  const [url, setUrl] = useState('')
+  const [json, setJson] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [dragging, setDragging] = useState(false)
+  // Bumped when a load finishes, to re-read bank statuses
+  const [, setLoads] = useState(0)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Re-render as sounds register
+  useSoundNames()
+
+  useEffect(() => {
+    strudelReady.then(() => setLoads((n) => n + 1))
+  }, [])
+
+  const addBank = async (bank: SampleBank) => {
+    const next = [...banks, bank]
+    setBanks(next)
+    saveBanks(next)
+    setError(null)
+    const status = loadBank(bank)
+    setLoads((n) => n + 1)
+    if ((await status) === 'error') setError(`Couldn't load "${bank.name}"`)
+    setLoads((n) => n + 1)
+  }
+
+  const addUrl = () => {
+    const trimmed = url.trim()
+    if (!trimmed) return
+    addBank({ id: newBankId(), name: trimmed, kind: 'url', url: trimmed })
+    setUrl('')
+  }
+
+  const addJson = () => {
+    try {
+      const map = JSON.parse(json)
+      if (typeof map !== 'object' || map === null || Array.isArray(map)) {
+        throw new Error('expected an object of sound names to sample paths')
+      }
+      const name = typeof map._base === 'string' ? map._base : 'Custom map'
+      addBank({ id: newBankId(), name, kind: 'json', map })
+      setJson('')
+    } catch (err) {
+      setError(`Invalid sample map: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const addFiles = async (dropped: Array<DroppedFile>, name: string) => {
+    const files = droppedToSamples(dropped)
+    if (files.length === 0) {
+      setError('No audio files found')
+      return
+    }
+    try {
+      await addBank(await createLocalBank(name, files))
+    } catch (err) {
+      console.error('Error storing samples:', err)
+      setError('Could not store the samples in this browser')
+    }
+  }
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    // Entries must be taken before the first await, the event's items expire after it
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null)
+    const dropped = (await Promise.all(entries.map((entry) => readEntry(entry, entry.name)))).flat()
+    const name = entries.length === 1 && entries[0].isDirectory ? entries[0].name : 'Local samples'
+    await addFiles(dropped, name)
+  }
+
+  const handlePicked = async (files: FileList | null) => {
+    if (!files) return
+    await addFiles(
+      Array.from(files).map((file) => ({ file, path: file.webkitRelativePath || file.name })),
+      'Local samples',
+    )
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const removeBank = async (bank: SampleBank) => {
+    const next = banks.filter((b) => b.id !== bank.id)
+    setBanks(next)
+    saveBanks(next)
+    await unregisterBank(bank)
+  }
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg flex items-center gap-2">
+          <Library className="h-4 w-4" />
+          Sample Banks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs text-gray-300">
+        {banks.length === 0 && <p>No banks. Only the built-in synths will sound.</p>}
+        {banks.map((bank) => {
+          const sounds = bankSounds(bank.id)
+          const status = bankStatus(bank.id)
+          return (
+            <details key={bank.id} className="rounded border border-white/10 px-2 py-1">
+              <summary className="flex items-center gap-2 cursor-pointer">
+                <span className="flex-1 truncate text-white" title={bank.name}>
+                  {bank.name}
+                </span>
+                <span className={status === 'error' ? 'text-red-400' : 'text-gray-400'}>
+                  {status === 'loaded' ? `${sounds.length} sounds` : status ? STATUS_LABELS[status] : ''}
+                </span>
+                <Button
+                  onClick={(e) => {
+                    e.preventDefault()
+                    removeBank(bank)
+                  }}
+                  size="sm"
+                  variant="destructive"
+                  className="h-6 w-6 p-0"
+                  title="Remove bank"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </summary>
+              <div className="flex flex-wrap gap-1 pt-2 max-h-40 overflow-y-auto">
+                {sounds.map(({ name, variants }) => (
+                  <button
+                    key={name}
+                    onClick={() => auditionSound(name)}
+                    className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white font-mono"
+                    title={`Preview ${name} (${variants} variants)`}
+                  >
+                    <Play className="h-2.5 w-2.5" />
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </details>
+          )
+        })}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addUrl()}
+            className="flex-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white placeholder-gray-400"
+            placeholder="github:user/repo or strudel.json URL"
+          />
+          <Button onClick={addUrl} size="sm" className="bg-white/10 hover:bg-white/20 text-white">
+            <Link2 className="mr-1 h-3 w-3" />
+            Add
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          <textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            className="w-full h-16 px-2 py-1 bg-black/30 border border-white/20 rounded text-white placeholder-gray-400 font-mono resize-none"
+            placeholder='{"_base": "https://…/", "kick": ["kick/1.wav"]}'
+          />
+          <Button
+            onClick={addJson}
+            disabled={!json.trim()}
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white w-full"
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add sample map
+          </Button>
+        </div>
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault()
+            setDragging(true)
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          className={`flex flex-col items-center gap-1 p-3 rounded border border-dashed cursor-pointer text-center ${
+            dragging ? 'border-blue-400 bg-blue-400/10' : 'border-white/20 hover:bg-white/5'
+          }`}
+        >
+          <Upload className="h-4 w-4" />
+          Drop audio files or folders here, or click to pick files. Folder names become sound names.
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          multiple
+          onChange={(e) => handlePicked(e.target.files)}
+          className="hidden"
+        />
+
+        {error && <p className="text-red-400">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
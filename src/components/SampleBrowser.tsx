@@ -0,0 +1,75 @@
+import { useMemo, useState } from 'react'
+import { Search } from 'lucide-react'
+import { auditionSound } from '@/lib/strudel'
+import { useSounds } from '@/hooks/useSoundNames'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface SampleBrowserProps {
+  // Double-click: insert `name:n` at the cursor of the last focused track
+  onInsert: (step: string) => void
+}
+
+// Rendering every variant of a large bank at once is slow, search narrows it down
+const MAX_SOUNDS = 40
+
+const stepName = (name: string, n: number) => (n === 0 ? name : `${name}:${n}`)
+
+export function SampleBrowser({ onInsert }: SampleBrowserProps) {
+  const sounds = useSounds()
+  const [query, setQuery] = useState('')
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return needle ? sounds.filter(({ name }) => name.includes(needle)) : sounds
+  }, [sounds, query])
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg">Sample Browser</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs text-gray-300">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full pl-7 pr-2 py-1 bg-black/30 border border-white/20 rounded text-white placeholder-gray-400"
+            placeholder={`Search ${sounds.length} sounds`}
+          />
+        </div>
+        <p className="text-gray-400">Click to listen, double-click or drag into a pattern to insert.</p>
+        <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {matches.slice(0, MAX_SOUNDS).map(({ name, type, variants }) => (
+            <div key={name} className="space-y-1">
+              <div className="flex items-baseline gap-2">
+                <span className="font-mono text-white">{name}</span>
+                <span className="text-gray-500">{type === 'sample' ? `${variants} variants` : type}</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {Array.from({ length: variants }, (_, n) => (
+                  <button
+                    key={n}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', stepName(name, n))}
+                    onClick={() => auditionSound(name, n)}
+                    onDoubleClick={() => onInsert(stepName(name, n))}
+                    className="px-1.5 py-0.5 rounded bg-white/10 hover:bg-white/20 text-white font-mono"
+                    title={stepName(name, n)}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {matches.length === 0 && <p>No sounds match "{query}".</p>}
+          {matches.length > MAX_SOUNDS && (
+            <p className="text-gray-400">{matches.length - MAX_SOUNDS} more, refine the search to see them.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react'
+import { ArrowUp, Clapperboard, Play, Plus, Repeat, Save, Trash2 } from 'lucide-react'
+import type { Arrangement, Scene } from '@/lib/scenes'
+import type { PatternInput } from '@/lib/tracks'
+import { captureScene, entryAt, newSceneId, validLoop } from '@/lib/scenes'
+import { currentCycle } from '@/lib/strudel'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface ScenePanelProps {
+  scenes: Array<Scene>
+  arrangement: Arrangement
+  tracks: Array<PatternInput>
+  // True while the arrangement (not the track list) is playing
+  playingSong: boolean
+  onScenesChange: (scenes: Array<Scene>) => void
+  onArrangementChange: (arrangement: Arrangement) => void
+  // Switch to a scene at the next cycle boundary
+  onLaunch: (scene: Scene) => void
+  // Play the arrangement from the top
+  onPlaySong: () => void
+}
+
+const DEFAULT_SECTION_CYCLES = 8
+
+export function ScenePanel({
+  scenes,
+  arrangement,
+  tracks,
+  playingSong,
+  onScenesChange,
+  onArrangementChange,
+  onLaunch,
+  onPlaySong,
+}: ScenePanelProps) {
+  // Entry playing right now, polled from the scheduler while the song plays
+  const [playingEntry, setPlayingEntry] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!playingSong) {
+      setPlayingEntry(null)
+      return
+    }
+    const timer = setInterval(() => setPlayingEntry(entryAt(arrangement, Math.floor(currentCycle()))), 100)
+    return () => clearInterval(timer)
+  }, [playingSong, arrangement])
+
+  const updateScene = (id: string, patch: Partial<Scene>) =>
+    onScenesChange(scenes.map((scene) => (scene.id === id ? { ...scene, ...patch } : scene)))
+
+  const removeScene = (id: string) => {
+    onScenesChange(scenes.filter((scene) => scene.id !== id))
+    const entries = arrangement.entries.filter((entry) => entry.sceneId !== id)
+    onArrangementChange({ entries, loop: entries.length > 0 ? arrangement.loop : null })
+  }
+
+  const setEntries = (entries: Arrangement['entries']) => {
+    const last = entries.length - 1
+    // Keep the loop inside the entries that are left
+    const loop = arrangement.loop && last >= 0
+      ? { start: Math.min(arrangement.loop.start, last), end: Math.min(arrangement.loop.end, last) }
+      : null
+    onArrangementChange({ entries, loop })
+  }
+
+  const totalCycles = arrangement.entries.reduce((sum, entry) => sum + entry.cycles, 0)
+
+  return (
+    <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-lg flex items-center gap-2">
+          <Clapperboard className="h-4 w-4" />
+          Scenes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs text-gray-300">
+        {/* Scenes */}
+        <div className="space-y-1">
+          {scenes.map((scene) => (
+            <div key={scene.id} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={scene.name}
+                onChange={(e) => updateScene(scene.id, { name: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+              />
+              <Button
+                onClick={() => onLaunch(scene)}
+                size="sm"
+                className="h-7 w-7 p-0 bg-green-600 hover:bg-green-700 text-white"
+                title="Launch at the next cycle"
+              >
+                <Play className="h-3 w-3" />
+              </Button>
+              <Button
+                onClick={() => updateScene(scene.id, { tracks: captureScene(scene.id, scene.name, tracks).tracks })}
+                size="sm"
+                className="h-7 w-7 p-0 bg-white/10 hover:bg-white/20 text-white"
+                title="Overwrite with the current mix"
+              >
+                <Save className="h-3 w-3" />
+              </Button>
+              <Button
+                onClick={() => removeScene(scene.id)}
+                size="sm"
+                variant="destructive"
+                className="h-7 w-7 p-0"
+                title="Delete scene"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            onClick={() =>
+              onScenesChange([...scenes, captureScene(newSceneId(), `Scene ${scenes.length + 1}`, tracks)])
+            }
+            size="sm"
+            className="bg-white/10 hover:bg-white/20 text-white w-full"
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Save current mix as scene
+          </Button>
+        </div>
+
+        {/* Arrangement */}
+        {scenes.length > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-white">Arrangement</span>
+              <span>{totalCycles} cycles</span>
+            </div>
+            {arrangement.entries.map((entry, index) => {
+              const inLoop = validLoop(arrangement) && arrangement.loop &&
+                index >= arrangement.loop.start && index <= arrangement.loop.end
+              return (
+                <div
+                  key={index}
+                  className={`flex items-center gap-1 rounded px-1 ${
+                    playingEntry === index ? 'bg-green-500/30' : inLoop ? 'bg-white/5' : ''
+                  }`}
+                >
+                  <span className="w-4 text-right text-gray-400">{index + 1}</span>
+                  <select
+                    value={entry.sceneId}
+                    onChange={(e) =>
+                      setEntries(arrangement.entries.map((en, i) => (i === index ? { ...en, sceneId: e.target.value } : en)))
+                    }
+                    className="flex-1 min-w-0 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+                  >
+                    {scenes.map((scene) => (
+                      <option key={scene.id} value={scene.id}>
+                        {scene.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={1}
+                    max={1024}
+                    value={entry.cycles}
+                    onChange={(e) => {
+                      const cycles = Math.min(1024, Math.max(1, parseInt(e.target.value) || 1))
+                      setEntries(arrangement.entries.map((en, i) => (i === index ? { ...en, cycles } : en)))
+                    }}
+                    className="w-14 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+                    title="Cycles"
+                  />
+                  <button
+                    onClick={() => {
+                      const entries = [...arrangement.entries]
+                      ;[entries[index - 1], entries[index]] = [entries[index], entries[index - 1]]
+                      setEntries(entries)
+                    }}
+                    disabled={index === 0}
+                    className="p-0.5 text-gray-400 hover:text-white disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => setEntries(arrangement.entries.filter((_, i) => i !== index))}
+                    className="p-0.5 text-gray-400 hover:text-white"
+                    title="Remove"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              )
+            })}
+            <Button
+              onClick={() =>
+                setEntries([...arrangement.entries, { sceneId: scenes[0].id, cycles: DEFAULT_SECTION_CYCLES }])
+              }
+              size="sm"
+              className="bg-white/10 hover:bg-white/20 text-white w-full"
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add section
+            </Button>
+
+            {arrangement.entries.length > 0 && (
+              <>
+                <div className="flex items-center gap-2 pt-1">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={arrangement.loop !== null}
+                      onChange={(e) =>
+                        onArrangementChange({
+                          ...arrangement,
+                          loop: e.target.checked ? { start: 0, end: arrangement.entries.length - 1 } : null,
+                        })
+                      }
+                    />
+                    <Repeat className="h-3 w-3" />
+                    Loop
+                  </label>
+                  {arrangement.loop && (
+                    <>
+                      {(['start', 'end'] as const).map((point) => (
+                        <select
+                          key={point}
+                          value={arrangement.loop?.[point]}
+                          onChange={(e) =>
+                            arrangement.loop &&
+                            onArrangementChange({
+                              ...arrangement,
+                              loop: { ...arrangement.loop, [point]: parseInt(e.target.value) },
+                            })
+                          }
+                          className="px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+                          title={point === 'start' ? 'Loop from section' : 'Loop to section'}
+                        >
+                          {arrangement.entries.map((_, i) => (
+                            <option key={i} value={i}>
+                              {i + 1}
+                            </option>
+                          ))}
+                        </select>
+                      ))}
+                    </>
+                  )}
+                </div>
+                {arrangement.loop && !validLoop(arrangement) && (
+                  <p className="text-red-400">The loop start comes after its end, so the song plays once.</p>
+                )}
+                <Button
+                  onClick={onPlaySong}
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700 text-white w-full"
+                >
+                  <Play className="mr-1 h-3 w-3" />
+                  {playingSong ? 'Restart song' : 'Play song'}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,154 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import type { StepGrid } from '@/lib/stepGrid'
+import {
+  GRID_STEP_OPTIONS,
+  VELOCITY_LEVELS,
+  emptyGrid,
+  gridToMini,
+  miniToGrid,
+  resizeGrid,
+} from '@/lib/stepGrid'
+import { useSoundNames } from '@/hooks/useSoundNames'
+import { Button } from '@/components/ui/button'
+
+interface StepGridEditorProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+// Sounds offered for new rows, in order
+const STARTER_SOUNDS = ['bd', 'sd', 'hh', 'oh', 'cp', 'rim']
+
+const nextVelocity = (cell: number) => {
+  const index = VELOCITY_LEVELS.indexOf(cell)
+  return VELOCITY_LEVELS[(index + 1) % VELOCITY_LEVELS.length]
+}
+
+// Grid of toggleable steps that writes mini-notation back to the track
+export function StepGridEditor({ value, onChange }: StepGridEditorProps) {
+  const soundNames = useSoundNames()
+  const listId = useId()
+  const parsed = useMemo(() => miniToGrid(value), [value])
+  const [grid, setGrid] = useState<StepGrid>(() => (parsed.ok ? parsed.grid : emptyGrid()))
+  // The text this editor wrote last. Anything else came from the code view or a load.
+  const lastEmitted = useRef<string | null>(null)
+  const external = value !== lastEmitted.current
+
+  useEffect(() => {
+    if (external && parsed.ok) setGrid(parsed.grid)
+  }, [external, parsed])
+
+  const update = (next: StepGrid) => {
+    setGrid(next)
+    const text = gridToMini(next)
+    lastEmitted.current = text
+    onChange(text)
+  }
+
+  const setCell = (rowIndex: number, step: number, cell: number) =>
+    update({
+      ...grid,
+      rows: grid.rows.map((row, i) =>
+        i === rowIndex ? { ...row, cells: row.cells.map((c, j) => (j === step ? cell : c)) } : row,
+      ),
+    })
+
+  // Parsed grids can have step counts outside the presets
+  const stepOptions = [...new Set([...GRID_STEP_OPTIONS, grid.steps])].sort((a, b) => a - b)
+
+  const addRow = () => {
+    const used = new Set(grid.rows.map((row) => row.sound))
+    const sound = STARTER_SOUNDS.find((name) => !used.has(name)) ?? 'bd'
+    update({ ...grid, rows: [...grid.rows, { sound, cells: Array<number>(grid.steps).fill(0) }] })
+  }
+
+  if (external && !parsed.ok) {
+    return (
+      <div className="space-y-2 text-xs text-gray-300">
+        <p>
+          This pattern is too complex to show as a grid: {parsed.reason}. Keep editing it as code, or
+          start over with an empty grid.
+        </p>
+        <Button
+          onClick={() => update(emptyGrid())}
+          size="sm"
+          className="bg-white/10 hover:bg-white/20 text-white"
+        >
+          Replace with empty grid
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2 text-xs text-gray-300">
+      <datalist id={listId}>
+        {soundNames.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      <div className="space-y-1 overflow-x-auto">
+        {grid.rows.map((row, rowIndex) => (
+          <div key={rowIndex} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={row.sound}
+              list={listId}
+              onChange={(e) =>
+                update({
+                  ...grid,
+                  rows: grid.rows.map((r, i) => (i === rowIndex ? { ...r, sound: e.target.value.replace(/[^\w:]/g, '') } : r)),
+                })
+              }
+              className="w-16 shrink-0 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white font-mono"
+            />
+            {row.cells.map((cell, step) => (
+              <button
+                key={step}
+                onClick={() => setCell(rowIndex, step, cell > 0 ? 0 : 1)}
+                onContextMenu={(e) => {
+                  e.preventDefault()
+                  setCell(rowIndex, step, nextVelocity(cell))
+                }}
+                className={`h-5 w-5 shrink-0 rounded-sm border ${
+                  step % 4 === 0 ? 'border-white/40' : 'border-white/15'
+                } ${cell > 0 ? 'bg-green-400' : 'bg-black/30 hover:bg-white/10'}`}
+                style={cell > 0 ? { opacity: 0.25 + cell * 0.75 } : undefined}
+                title={cell > 0 ? `Step ${step + 1}, velocity ${Math.round(cell * 100)}%` : `Step ${step + 1}`}
+              />
+            ))}
+            <button
+              onClick={() => update({ ...grid, rows: grid.rows.filter((_, i) => i !== rowIndex) })}
+              className="p-0.5 text-gray-400 hover:text-white"
+              title="Remove row"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button onClick={addRow} size="sm" className="bg-white/10 hover:bg-white/20 text-white">
+          <Plus className="mr-1 h-3 w-3" />
+          Row
+        </Button>
+        <label className="flex items-center gap-1">
+          Steps
+          <select
+            value={grid.steps}
+            onChange={(e) => update(resizeGrid(grid, parseInt(e.target.value)))}
+            className="px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white"
+          >
+            {stepOptions.map((steps) => (
+              <option key={steps} value={steps}>
+                {steps}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-gray-400">Click to toggle, right-click for velocity</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react'
+import { ChevronsLeft, ChevronsRight, Gauge, Hand } from 'lucide-react'
+import type { TempoSettings } from '@/lib/tempo'
+import { MAX_BPM, MIN_BPM, bpmToCps, clampBpm, cpsToBpm, tapTempo } from '@/lib/tempo'
+import { setTempo } from '@/lib/strudel'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+
+interface TempoControlProps {
+  tempo: TempoSettings
+  onChange: (tempo: TempoSettings) => void
+}
+
+// How far a held nudge button pushes the tempo
+const NUDGE_AMOUNT = 0.04
+
+interface DraftNumberInputProps {
+  value: number
+  min: number
+  max: number
+  step: number
+  onCommit: (value: number) => void
+}
+
+// Number field that keeps what's typed as a draft and only commits on blur or
+// Enter, so clamping doesn't fight a half-typed value. Escape drops the draft.
+function DraftNumberInput({ value, min, max, step, onCommit }: DraftNumberInputProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft !== null) onCommit(parseFloat(draft))
+    setDraft(null)
+  }
+
+  return (
+    <input
+      type="number"
+      value={draft ?? value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+        else if (e.key === 'Escape') setDraft(null)
+      }}
+      className="w-16 px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white font-mono text-xs"
+    />
+  )
+}
+
+export function TempoControl({ tempo, onChange }: TempoControlProps) {
+  const [taps, setTaps] = useState<Array<number>>([])
+  const nudging = useRef(false)
+  const bpm = cpsToBpm(tempo.cps, tempo.beatsPerCycle)
+
+  const setBpm = (value: number) => {
+    if (!Number.isFinite(value)) return
+    onChange({ ...tempo, cps: bpmToCps(clampBpm(value), tempo.beatsPerCycle) })
+  }
+
+  const handleTap = () => {
+    const result = tapTempo(taps, performance.now())
+    setTaps(result.taps)
+    if (result.bpm !== null) setBpm(result.bpm)
+  }
+
+  // Nudging bends the scheduler directly and springs back on release,
+  // so the saved tempo never changes
+  const releaseNudge = () => {
+    if (!nudging.current) return
+    nudging.current = false
+    setTempo(tempo.cps, false)
+  }
+  const nudgeHandlers = (direction: 1 | -1) => ({
+    onPointerDown: () => {
+      nudging.current = true
+      setTempo(tempo.cps * (1 + direction * NUDGE_AMOUNT), false)
+    },
+    onPointerUp: releaseNudge,
+    onPointerLeave: releaseNudge,
+  })
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-white">
+        <Gauge className="h-3 w-3" />
+        <span className="text-xs">Tempo</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1 text-xs text-gray-300">
+          BPM
+          <DraftNumberInput
+            value={Math.round(bpm * 10) / 10}
+            min={MIN_BPM}
+            max={MAX_BPM}
+            step={0.1}
+            onCommit={setBpm}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-300">
+          CPS
+          <DraftNumberInput
+            value={Math.round(tempo.cps * 1000) / 1000}
+            min={bpmToCps(MIN_BPM, tempo.beatsPerCycle)}
+            max={bpmToCps(MAX_BPM, tempo.beatsPerCycle)}
+            step={0.01}
+            onCommit={(cps) => setBpm(cpsToBpm(cps, tempo.beatsPerCycle))}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-300">
+          Beats/cycle
+          <select
+            value={tempo.beatsPerCycle}
+            // Keep the BPM the player hears and recompute CPS for the new grouping
+            onChange={(e) => {
+              const beatsPerCycle = parseInt(e.target.value)
+              onChange({ beatsPerCycle, cps: bpmToCps(bpm, beatsPerCycle) })
+            }}
+            className="px-1 py-0.5 bg-black/30 border border-white/20 rounded text-white text-xs"
+          >
+            {[1, 2, 3, 4, 5, 6, 7, 8].map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <Slider
+        value={[bpm]}
+        onValueChange={([value]) => setBpm(value)}
+        max={MAX_BPM}
+        min={MIN_BPM}
+        step={1}
+        className="w-full"
+      />
+      <div className="flex gap-2">
+        <Button
+          {...nudgeHandlers(-1)}
+          size="sm"
+          className="bg-white/10 hover:bg-white/20 text-white"
+          title="Nudge slower (hold)"
+        >
+          <ChevronsLeft className="h-3 w-3" />
+        </Button>
+        <Button
+          onClick={handleTap}
+          size="sm"
+          className="bg-white/10 hover:bg-white/20 text-white flex-1"
+        >
+          <Hand className="mr-1 h-3 w-3" />
+          Tap Tempo
+        </Button>
+        <Button
+          {...nudgeHandlers(1)}
+          size="sm"
+          className="bg-white/10 hover:bg-white/20 text-white"
+          title="Nudge faster (hold)"
+        >
+          <ChevronsRight className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { Repeat, Rewind, X } from 'lucide-react'
+import type { SimpleTransform, Transform, TransformKind } from '@/lib/transforms'
+import { SIMPLE_KINDS, TRANSFORM_LABELS, TRANSFORM_PARAMS, defaultTransform } from '@/lib/transforms'
+
+interface TransformToolbarProps {
+  transforms: Array<Transform>
+  onChange: (transforms: Array<Transform>) => void
+}
+
+// Toolbar buttons, in the order they appear
+const BUTTONS: Array<{ label: string; title: string; transform: () => Transform }> = [
+  { label: '×2', title: 'Twice as fast', transform: () => defaultTransform('fast') },
+  { label: '÷2', title: 'Half as fast', transform: () => defaultTransform('slow') },
+  { label: 'Rev', title: 'Play each cycle backwards', transform: () => defaultTransform('rev') },
+  { label: 'Every', title: 'Transform only every N cycles', transform: () => defaultTransform('every') },
+  { label: 'Degrade', title: 'Randomly drop events', transform: () => defaultTransform('degradeBy') },
+  { label: 'Ply', title: 'Repeat each event', transform: () => defaultTransform('ply') },
+  { label: 'Iter', title: 'Start each cycle a step later', transform: () => defaultTransform('iter') },
+  { label: 'Euclid', title: 'Euclidean rhythm with rotation', transform: () => defaultTransform('euclidRot') },
+]
+
+const INPUT_CLASSES = 'w-10 px-1 bg-black/30 border border-white/20 rounded text-white'
+
+interface ParamInputsProps {
+  transform: Transform
+  onChange: (transform: Transform) => void
+}
+
+// Inline number fields for a transform's parameters
+function ParamInputs({ transform, onChange }: ParamInputsProps) {
+  const values = transform as unknown as Record<string, number>
+  return (
+    <>
+      {TRANSFORM_PARAMS[transform.kind].map(({ key, label, min, max, step }) => (
+        <label key={key} className="flex items-center gap-0.5">
+          {label}
+          <input
+            type="number"
+            value={values[key]}
+            min={min}
+            max={max}
+            step={step}
+            onChange={(e) => {
+              const value = Math.min(max, Math.max(min, parseFloat(e.target.value) || min))
+              onChange({ ...transform, [key]: value })
+            }}
+            className={INPUT_CLASSES}
+          />
+        </label>
+      ))}
+    </>
+  )
+}
+
+// One removable chip per transform
+function TransformChip({ transform, onChange, onRemove }: ParamInputsProps & { onRemove: () => void }) {
+  return (
+    <span className="flex items-center gap-1 rounded-full bg-white/10 border border-white/20 pl-2 pr-1 py-0.5">
+      {transform.kind === 'every' ? (
+        <>
+          <Repeat className="h-3 w-3" />
+          <ParamInputs transform={transform} onChange={onChange} />
+          <select
+            value={transform.transform.kind}
+            onChange={(e) =>
+              onChange({ ...transform, transform: defaultTransform(e.target.value as TransformKind) as SimpleTransform })
+            }
+            className="px-1 bg-black/30 border border-white/20 rounded text-white"
+          >
+            {SIMPLE_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {TRANSFORM_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+          <ParamInputs
+            transform={transform.transform}
+            onChange={(inner) => onChange({ ...transform, transform: inner as SimpleTransform })}
+          />
+        </>
+      ) : (
+        <>
+          {transform.kind === 'rev' && <Rewind className="h-3 w-3" />}
+          {TRANSFORM_LABELS[transform.kind]}
+          <ParamInputs transform={transform} onChange={onChange} />
+        </>
+      )}
+      <button onClick={onRemove} className="p-0.5 text-gray-400 hover:text-white" title="Remove">
+        <X className="h-3 w-3" />
+      </button>
+    </span>
+  )
+}
+
+// Common Strudel transforms as buttons, with the chosen ones listed as chips
+export function TransformToolbar({ transforms, onChange }: TransformToolbarProps) {
+  return (
+    <div className="space-y-1 text-xs text-gray-300">
+      <div className="flex flex-wrap gap-1">
+        {BUTTONS.map(({ label, title, transform }) => (
+          <button
+            key={label}
+            onClick={() => onChange([...transforms, transform()])}
+            className="h-6 px-2 rounded bg-white/10 hover:bg-white/20 text-white"
+            title={title}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {transforms.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {transforms.map((transform, index) => (
+            <TransformChip
+              key={index}
+              transform={transform}
+              onChange={(next) => onChange(transforms.map((t, i) => (i === index ? next : t)))}
+              onRemove={() => onChange(transforms.filter((_, i) => i !== index))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
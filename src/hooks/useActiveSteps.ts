@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react'
+import { currentCycle } from '@/lib/strudel'
+
+// Character range in the pattern text, end exclusive
+export interface StepRange {
+  start: number
+  end: number
+}
+
+// Text ranges of the haps sounding at `cycle`. Mini-notation locations are
+// offsets into the quoted string, so they sit one past the editor text.
+export function soundingRanges(pattern: any, cycle: number): Array<StepRange> {
+  try {
+    return pattern
+      .queryArc(cycle, cycle)
+      .filter((hap: any) => hap.whole && hap.whole.begin.valueOf() <= cycle && cycle < hap.whole.end.valueOf())
+      .flatMap((hap: any) => hap.context.locations ?? [])
+      .map(({ start, end }: { start: number; end: number }) => ({ start: start - 1, end: end - 1 }))
+  } catch (error) {
+    console.warn('Error querying pattern for step highlighting:', error)
+    return []
+  }
+}
+
+const rangesKey = (ranges: Array<StepRange>) => ranges.map(({ start, end }) => `${start}-${end}`).join(',')
+
+// Follow the scheduler clock and report which characters of a track's pattern
+// are sounding. Only re-renders when the set of ranges changes.
+export function useActiveSteps(pattern: any, isPlaying: boolean): Array<StepRange> {
+  const [ranges, setRanges] = useState<Array<StepRange>>([])
+
+  useEffect(() => {
+    if (!pattern || !isPlaying) {
+      setRanges([])
+      return
+    }
+
+    let frame = 0
+    let lastKey = ''
+    const loop = () => {
+      const next = soundingRanges(pattern, currentCycle())
+      const key = rangesKey(next)
+      if (key !== lastKey) {
+        lastKey = key
+        setRanges(next)
+      }
+      frame = requestAnimationFrame(loop)
+    }
+    loop()
+    return () => cancelAnimationFrame(frame)
+  }, [pattern, isPlaying])
+
+  return ranges
+}
@@ -0,0 +1,22 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import type { Verdict } from '@/lib/codeEval'
+import { checkCode, peekVerdict, subscribeVerdicts } from '@/lib/codeEval'
+
+// Pause after the last keystroke before code is dry-run
+const CHECK_DEBOUNCE_MS = 300
+
+// Result of dry-running a code-mode track, or null when `code` is blank or
+// checking is switched off. Rechecks as the code is edited.
+export function useCodeVerdict(code: string, enabled: boolean): Verdict | null {
+  const active = enabled && code.trim() !== ''
+  const verdict = useSyncExternalStore(subscribeVerdicts, () => (active ? peekVerdict(code) : undefined))
+
+  useEffect(() => {
+    if (!active) return
+    const timer = setTimeout(() => checkCode(code), CHECK_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [code, active])
+
+  if (!active) return null
+  return verdict ?? { ok: false, pending: true, error: 'Checking code…' }
+}
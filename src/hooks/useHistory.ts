@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react'
+import type { Command } from '@/lib/history'
+import { createHistory, execute, jump, redo, undo } from '@/lib/history'
+
+// Undoable state. Commands are built from the latest state so rapid edits
+// never work from a stale copy.
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState(() => createHistory(initial))
+
+  const run = useCallback((build: (present: T) => Command<T>) => {
+    setHistory((current) => execute(current, build(current.present)))
+  }, [])
+
+  return {
+    present: history.present,
+    entries: history.entries,
+    position: history.position,
+    canUndo: history.position > 0,
+    canRedo: history.position < history.entries.length,
+    execute: run,
+    undo: useCallback(() => setHistory(undo), []),
+    redo: useCallback(() => setHistory(redo), []),
+    jump: useCallback((position: number) => setHistory((current) => jump(current, position)), []),
+    // Start over from new state, e.g. after opening another project
+    reset: useCallback((present: T) => setHistory(createHistory(present)), []),
+  }
+}
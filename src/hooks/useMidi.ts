@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { MidiBackend } from '@/lib/midi'
+import { requestWebMidi, setMidiBackend } from '@/lib/midi'
+
+export interface MidiPortInfo {
+  id: string
+  name: string
+}
+
+const describe = (ports: Array<MidiPortInfo>) => ports.map(({ id, name }) => ({ id, name }))
+
+// Web MIDI access is opt-in because browsers prompt for permission
+export function useMidi() {
+  const [backend, setBackend] = useState<MidiBackend | null>(null)
+  const [outputs, setOutputs] = useState<Array<MidiPortInfo>>([])
+  const [inputs, setInputs] = useState<Array<MidiPortInfo>>([])
+  const [error, setError] = useState<string | null>(null)
+  // Removes the device listener of the current backend
+  const unsubscribe = useRef<(() => void) | null>(null)
+
+  useEffect(() => () => unsubscribe.current?.(), [])
+
+  const enable = useCallback(async () => {
+    try {
+      const access = await requestWebMidi()
+      const refresh = () => {
+        setOutputs(describe(access.outputs()))
+        setInputs(describe(access.inputs()))
+      }
+      // Enabling again replaces the listener rather than adding another
+      unsubscribe.current?.()
+      unsubscribe.current = access.onDevicesChanged(refresh)
+      refresh()
+      setMidiBackend(access)
+      setBackend(access)
+      setError(null)
+    } catch (err) {
+      console.error('Error enabling MIDI:', err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [])
+
+  return { enabled: backend !== null, outputs, inputs, error, enable }
+}
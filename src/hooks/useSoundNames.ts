@@ -0,0 +1,38 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { soundMap } from '@strudel/web'
+
+export interface SoundInfo {
+  name: string
+  // 'sample', 'synth', ...
+  type: string
+  // Number of `name:n` variants; 1 for synths
+  variants: number
+}
+
+const subscribe = (listener: () => void) => soundMap.listen(listener)
+const snapshot = () => soundMap.get()
+
+// Pitched banks map notes to files and pick by note, so they count as one
+const countVariants = (samples: unknown) => (Array.isArray(samples) ? samples.length : 1)
+
+// Every registered sound, sorted by name. Updates as sample banks finish loading.
+export function useSounds(): Array<SoundInfo> {
+  const sounds = useSyncExternalStore(subscribe, snapshot)
+  return useMemo(
+    () =>
+      Object.entries(sounds)
+        .map(([name, { data }]) => ({
+          name,
+          type: String(data.type ?? 'sample'),
+          variants: Math.max(1, countVariants(data.samples)),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [sounds],
+  )
+}
+
+// Just the names, for autocomplete
+export function useSoundNames(): Array<string> {
+  const sounds = useSounds()
+  return useMemo(() => sounds.map(({ name }) => name), [sounds])
+}
@@ -0,0 +1,39 @@
+// Dry-runs track code off the main thread, so an endless loop only hangs
+// this worker (which gets terminated and replaced) and never the page
+import * as core from '@strudel/core'
+import * as mini from '@strudel/mini'
+import { SCOPE_MODULES, buildScope, runInScope } from '@/lib/codeScope'
+
+export interface CheckRequest {
+  code: string
+}
+
+export type CheckResponse = { ok: true } | { ok: false; error: string }
+
+// `ready` once the Strudel scope has loaded, then one `verdict` per request
+export type WorkerMessage = { type: 'ready' } | { type: 'verdict'; verdict: CheckResponse }
+
+// The DOM lib types `self` as a window; this is the part of the worker scope used here
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<CheckRequest>) => void) | null
+  postMessage: (message: WorkerMessage) => void
+}
+
+// Imported statically so the worker builds as a single file
+mini.miniAllStrings()
+const scopeReady = core.evalScope(...SCOPE_MODULES).then(() => buildScope())
+// Checks are only timed from here on, so a slow load never looks like a hang
+scopeReady.then(() => worker.postMessage({ type: 'ready' }))
+
+worker.onmessage = async (event: MessageEvent<CheckRequest>) => {
+  const scope = await scopeReady
+  let response: CheckResponse
+  try {
+    // Querying a couple of cycles catches errors that only show up when the pattern runs
+    runInScope(event.data.code, scope).queryArc(0, 2)
+    response = { ok: true }
+  } catch (error) {
+    response = { ok: false, error: error instanceof Error ? error.message : String(error) }
+  }
+  worker.postMessage({ type: 'verdict', verdict: response })
+}
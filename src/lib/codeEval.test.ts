@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { CheckRequest, WorkerMessage } from '@/lib/codeCheck.worker'
+import { CHECK_TIMEOUT_MS, checkCode, peekVerdict } from '@/lib/codeEval'
+
+// Stand-in for the checking worker that records what it's sent
+class FakeWorker {
+  static instances: Array<FakeWorker> = []
+  onmessage: ((event: { data: WorkerMessage }) => void) | null = null
+  onerror: ((event: { message: string }) => void) | null = null
+  requests: Array<CheckRequest> = []
+  terminated = false
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(request: CheckRequest) {
+    this.requests.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  send(data: WorkerMessage) {
+    this.onmessage?.({ data })
+  }
+}
+
+const latest = () => FakeWorker.instances[FakeWorker.instances.length - 1]
+
+// The tests run in order against one worker, the way checks share it in the app
+describe('checkCode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('Worker', FakeWorker)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('waits for the worker to load before sending or timing a check', () => {
+    checkCode('s("bd")')
+    const worker = latest()
+    // A slow load doesn't count against the code
+    vi.advanceTimersByTime(CHECK_TIMEOUT_MS * 5)
+    expect(worker.requests).toEqual([])
+    expect(peekVerdict('s("bd")')).toBeUndefined()
+
+    worker.send({ type: 'ready' })
+    expect(worker.requests).toEqual([{ code: 's("bd")' }])
+    worker.send({ type: 'verdict', verdict: { ok: true } })
+    expect(peekVerdict('s("bd")')).toEqual({ ok: true })
+  })
+
+  it('reuses the warm worker and runs one check at a time', () => {
+    const worker = latest()
+    const sent = worker.requests.length
+    checkCode('s("hh")')
+    checkCode('s("cp")')
+    expect(latest()).toBe(worker)
+    expect(worker.requests.slice(sent)).toEqual([{ code: 's("hh")' }])
+
+    worker.send({ type: 'verdict', verdict: { ok: false, error: 'nope' } })
+    expect(peekVerdict('s("hh")')).toEqual({ ok: false, error: 'nope' })
+    expect(worker.requests.slice(sent)).toEqual([{ code: 's("hh")' }, { code: 's("cp")' }])
+    worker.send({ type: 'verdict', verdict: { ok: true } })
+    expect(peekVerdict('s("cp")')).toEqual({ ok: true })
+  })
+
+  it('replaces the worker only when a check times out', () => {
+    checkCode('while (true) {}')
+    const worker = latest()
+    vi.advanceTimersByTime(CHECK_TIMEOUT_MS)
+
+    expect(peekVerdict('while (true) {}')).toMatchObject({ ok: false })
+    expect(worker.terminated).toBe(true)
+    const replacement = latest()
+    expect(replacement).not.toBe(worker)
+
+    checkCode('s("rim")')
+    replacement.send({ type: 'ready' })
+    expect(replacement.requests).toEqual([{ code: 's("rim")' }])
+  })
+})
@@ -0,0 +1,136 @@
+import { evalScope } from '@strudel/web'
+import type { CheckRequest, CheckResponse, WorkerMessage } from '@/lib/codeCheck.worker'
+import { buildScope, runInScope } from '@/lib/codeScope'
+
+// How long a dry run may take before the code is treated as hung
+export const CHECK_TIMEOUT_MS = 1000
+// Verdicts kept for recently seen code
+const MAX_VERDICTS = 100
+
+export type Verdict = CheckResponse | { ok: false; pending: true; error: string }
+
+const verdicts = new Map<string, CheckResponse>()
+const pending = new Set<string>()
+const listeners = new Set<() => void>()
+// Bumped whenever a verdict arrives, for useSyncExternalStore
+let version = 0
+
+export const subscribeVerdicts = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const verdictVersion = () => version
+
+// @strudel/web bundles its own copy of core, so patterns played here must come
+// from its exports rather than from @strudel/core
+let scope: Record<string, any> | null = null
+evalScope(import('@strudel/web'))
+  .then(([web]) => {
+    scope = buildScope(web)
+  })
+  .catch((error) => console.error('Error loading the Strudel scope for code mode:', error))
+
+function record(code: string, verdict: CheckResponse) {
+  pending.delete(code)
+  verdicts.delete(code)
+  verdicts.set(code, verdict)
+  // Maps iterate in insertion order, so the first key is the oldest
+  if (verdicts.size > MAX_VERDICTS) verdicts.delete(verdicts.keys().next().value as string)
+  version++
+  listeners.forEach((listener) => listener())
+}
+
+// One long-lived worker does the dry runs, one at a time. Only a check that
+// runs past the timeout gets it terminated (the only way to stop a runaway
+// loop) and replaced.
+let checker: { worker: Worker; ready: boolean } | null = null
+const queue: Array<string> = []
+let running: { code: string; timer: ReturnType<typeof setTimeout> } | null = null
+
+function finishRunning(verdict: CheckResponse) {
+  if (!running) return
+  clearTimeout(running.timer)
+  record(running.code, verdict)
+  running = null
+}
+
+function restartChecker() {
+  checker?.worker.terminate()
+  checker = null
+  startChecker()
+}
+
+function startChecker() {
+  const worker = new Worker(new URL('./codeCheck.worker.ts', import.meta.url), { type: 'module' })
+  const current = { worker, ready: false }
+  checker = current
+  worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    if (event.data.type === 'ready') current.ready = true
+    else finishRunning(event.data.verdict)
+    runNext()
+  }
+  worker.onerror = (event) => {
+    if (!current.ready) {
+      // The scope didn't load, so retrying now would fail the same way. Fail
+      // what's queued; the next edit starts a fresh worker.
+      console.error('Error starting the code checker:', event.message)
+      worker.terminate()
+      checker = null
+      queue.splice(0).forEach((code) => record(code, { ok: false, error: 'Could not start the code checker' }))
+      return
+    }
+    finishRunning({ ok: false, error: event.message || 'Evaluation failed' })
+    restartChecker()
+  }
+}
+
+// Send the next queued check once the worker is ready and idle. The timeout
+// starts here, so loading the worker never counts against the code.
+function runNext() {
+  if (!checker?.ready || running) return
+  const code = queue.shift()
+  if (code === undefined) return
+  const timer = setTimeout(() => {
+    finishRunning({ ok: false, error: `Evaluation took longer than ${CHECK_TIMEOUT_MS}ms, is there an endless loop?` })
+    restartChecker()
+  }, CHECK_TIMEOUT_MS)
+  running = { code, timer }
+  checker.worker.postMessage({ code } satisfies CheckRequest)
+}
+
+// Queue code for a dry run in the checking worker
+export function checkCode(code: string) {
+  if (verdicts.has(code) || pending.has(code)) return
+  pending.add(code)
+  queue.push(code)
+  if (!checker) startChecker()
+  runNext()
+}
+
+// Code that passed its dry run but threw once it played, e.g. at a cycle the dry
+// run never reached. It is treated as failed from then on.
+export const rejectCode = (code: string, error: unknown) =>
+  record(code, { ok: false, error: error instanceof Error ? error.message : String(error) })
+
+// The verdict for some code if it has been checked, without starting a check
+export const peekVerdict = (code: string): CheckResponse | undefined => verdicts.get(code)
+
+// Where a piece of code stands. Unchecked code starts a check.
+export function verdictFor(code: string): Verdict {
+  const verdict = verdicts.get(code)
+  if (verdict) return verdict
+  checkCode(code)
+  return { ok: false, pending: true, error: 'Checking code…' }
+}
+
+// Evaluate track code on the main thread, but only once the worker has
+// vouched for it. Throws with a readable message otherwise.
+export function evaluateCode(code: string) {
+  const verdict = verdictFor(code)
+  if (!verdict.ok) throw new Error(verdict.error)
+  if (!scope) throw new Error('Strudel is still loading')
+  return runInScope(code, scope)
+}
@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import * as web from '@strudel/web'
+import { buildScope, runInScope } from '@/lib/codeScope'
+
+describe('buildScope', () => {
+  it('gives the main thread and the worker the same names', () => {
+    const main = buildScope(web)
+    const worker = buildScope()
+    expect(Object.keys(main).sort()).toEqual(Object.keys(worker).sort())
+    // Main thread values are the ones @strudel/web's scheduler plays
+    expect(main.note).toBe(web.note)
+    expect(worker.note).not.toBe(web.note)
+  })
+
+  it('leaves out audio plumbing and browser globals', () => {
+    const scope = buildScope(web)
+    expect(scope).not.toHaveProperty('samples')
+    expect(scope).not.toHaveProperty('superdough')
+    expect(scope).not.toHaveProperty('setTimeout')
+  })
+})
+
+describe('runInScope', () => {
+  const scope = buildScope(web)
+  // As initStrudel does in the app
+  beforeAll(() => web.miniAllStrings())
+
+  it('returns the pattern the code evaluates to', () => {
+    const values = runInScope('note("c e").s("sine")', scope)
+      .queryArc(0, 1)
+      .map((hap: any) => hap.value)
+    expect(values).toEqual([
+      { note: 'c', s: 'sine' },
+      { note: 'e', s: 'sine' },
+    ])
+  })
+
+  it('hides browser globals from the code', () => {
+    const values = runInScope('note(typeof document)', scope)
+      .queryArc(0, 1)
+      .map((hap: any) => hap.value.note)
+    expect(values).toEqual(['undefined'])
+  })
+
+  it('rejects code that does not produce a pattern', () => {
+    expect(() => runInScope('1 + 1', scope)).toThrow(/must evaluate to a pattern/)
+  })
+})
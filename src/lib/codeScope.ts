@@ -0,0 +1,59 @@
+// Shared by the main thread and the checking worker: run one Strudel
+// expression with only the Strudel exports in scope.
+import * as core from '@strudel/core'
+import * as mini from '@strudel/mini'
+import * as tonal from '@strudel/tonal'
+
+// The packages whose exports track code can use, on both sides. The worker runs
+// them as they are; the main thread takes the same names from @strudel/web,
+// whose bundled copies are the ones its scheduler can play.
+export const SCOPE_MODULES: Array<Record<string, any>> = [core, mini, tonal]
+
+// Browser globals hidden from track code. This guards against accidents
+// (a stray `document.body.innerHTML = ...`), it is not a security boundary.
+// `eval` can't be shadowed in strict mode, so it isn't listed.
+const SHADOWED_GLOBALS = [
+  'window',
+  'self',
+  'globalThis',
+  'document',
+  'localStorage',
+  'sessionStorage',
+  'indexedDB',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'Worker',
+  'Function',
+  'setTimeout',
+  'setInterval',
+  'postMessage',
+  'importScripts',
+]
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+// One name -> value table of the scope modules' exports. Values come from
+// `source` where it has them, so both threads see exactly the same names.
+export function buildScope(source: Record<string, any> = {}): Record<string, any> {
+  const scope: Record<string, any> = {}
+  SCOPE_MODULES.forEach((module) =>
+    Object.entries(module).forEach(([name, value]) => {
+      if (IDENTIFIER.test(name) && !SHADOWED_GLOBALS.includes(name)) {
+        scope[name] = name in source ? source[name] : value
+      }
+    }),
+  )
+  return scope
+}
+
+// Evaluate `code` as a single expression and return the pattern it produces
+export function runInScope(code: string, scope: Record<string, any>) {
+  const names = Object.keys(scope)
+  const run = new Function(...names, ...SHADOWED_GLOBALS, `"use strict"; return (${code}\n)`)
+  const result = run(...names.map((name) => scope[name]))
+  if (!result || typeof result.queryArc !== 'function') {
+    throw new Error('Code must evaluate to a pattern, e.g. note("c e g").s("sawtooth")')
+  }
+  return result
+}
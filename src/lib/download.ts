@@ -0,0 +1,13 @@
+// File-system friendly version of a user supplied name
+export const safeFileName = (name: string) => name.trim().replace(/[^\w-]+/g, '-') || 'untitled'
+
+// Hand a generated file to the browser as a download
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,28 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { miniAllStrings, s } from '@strudel/web'
+import { applyEffects } from '@/lib/effects'
+
+describe('applyEffects', () => {
+  // As initStrudel does in the app
+  beforeAll(() => miniAllStrings())
+
+  it('sends fixed and patterned values as controls', () => {
+    const values = applyEffects(s('bd bd'), { lpf: { lpf: '<400 2000>', lpq: 5 }, crush: { crush: 4 } })
+      .queryArc(0, 2)
+      .sort((a: any, b: any) => a.whole.begin - b.whole.begin)
+      .map((hap: any) => hap.value)
+    expect(values.map((value: any) => value.cutoff)).toEqual([400, 400, 2000, 2000])
+    expect(values[0]).toMatchObject({ resonance: 5, crush: 4 })
+  })
+
+  it('only reports locations in the track text', () => {
+    const locations = applyEffects(s('bd sd'), { lpf: { lpf: '<400 2000>', lpq: 1 } })
+      .queryArc(0, 1)
+      .map((hap: any) => hap.context.locations.map(({ start, end }: any) => [start, end]))
+    expect(locations).toEqual([[[1, 3]], [[4, 6]]])
+  })
+
+  it('names the parameter a bad pattern is in', () => {
+    expect(() => applyEffects(s('bd'), { hpf: { hpf: '<200 800', hpq: 1 } })).toThrow(/^High-pass cutoff: /)
+  })
+})
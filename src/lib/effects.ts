@@ -0,0 +1,100 @@
+import { validateMini } from '@/lib/miniValidation'
+import { parseUnlocated } from '@/lib/miniHighlight'
+
+// A parameter is either a fixed number or a short mini-notation pattern, e.g. '<400 2000>'
+export type EffectValue = number | string
+
+export interface EffectParam {
+  // Strudel control the value is sent as
+  control: string
+  label: string
+  min: number
+  max: number
+  step: number
+  initial: number
+}
+
+export interface EffectSpec {
+  id: EffectId
+  label: string
+  params: Array<EffectParam>
+}
+
+export type EffectId = 'lpf' | 'hpf' | 'delay' | 'reverb' | 'distort' | 'crush'
+
+// Switched-on effects of a track, each with its parameter values by control name.
+// Superdough runs them in a fixed order, so there's no chain order to keep.
+export type TrackEffects = Partial<Record<EffectId, Record<string, EffectValue>>>
+
+export const EFFECTS: Array<EffectSpec> = [
+  {
+    id: 'lpf',
+    label: 'Low-pass',
+    params: [
+      { control: 'lpf', label: 'Cutoff', min: 20, max: 20000, step: 1, initial: 2000 },
+      { control: 'lpq', label: 'Resonance', min: 0, max: 30, step: 0.1, initial: 1 },
+    ],
+  },
+  {
+    id: 'hpf',
+    label: 'High-pass',
+    params: [
+      { control: 'hpf', label: 'Cutoff', min: 20, max: 20000, step: 1, initial: 200 },
+      { control: 'hpq', label: 'Resonance', min: 0, max: 30, step: 0.1, initial: 1 },
+    ],
+  },
+  {
+    id: 'delay',
+    label: 'Delay',
+    params: [
+      { control: 'delaytime', label: 'Time', min: 0.01, max: 2, step: 0.01, initial: 0.25 },
+      { control: 'delayfeedback', label: 'Feedback', min: 0, max: 0.95, step: 0.01, initial: 0.4 },
+      { control: 'delay', label: 'Mix', min: 0, max: 1, step: 0.01, initial: 0.3 },
+    ],
+  },
+  {
+    id: 'reverb',
+    label: 'Reverb',
+    params: [
+      { control: 'room', label: 'Mix', min: 0, max: 1, step: 0.01, initial: 0.3 },
+      { control: 'roomsize', label: 'Size', min: 0.1, max: 10, step: 0.1, initial: 2 },
+    ],
+  },
+  {
+    id: 'distort',
+    label: 'Distortion',
+    params: [{ control: 'distort', label: 'Amount', min: 0, max: 10, step: 0.1, initial: 2 }],
+  },
+  {
+    id: 'crush',
+    label: 'Bitcrush',
+    params: [{ control: 'crush', label: 'Bits', min: 1, max: 16, step: 1, initial: 8 }],
+  },
+]
+
+export const effectSpec = (id: EffectId) => EFFECTS.find((effect) => effect.id === id) as EffectSpec
+
+// Parameter values a freshly switched-on effect starts with
+export const initialParams = (id: EffectId): Record<string, EffectValue> =>
+  Object.fromEntries(effectSpec(id).params.map((param) => [param.control, param.initial]))
+
+// Send each switched-on effect's parameters as Strudel controls. Pattern values
+// are checked first so a typo reports which parameter it's in.
+export function applyEffects(source: any, effects: TrackEffects) {
+  let pattern = source
+  EFFECTS.forEach(({ id, label, params }) => {
+    const values = effects[id]
+    if (!values) return
+    params.forEach((param) => {
+      const value = values[param.control] ?? param.initial
+      if (typeof value === 'string') {
+        const issue = validateMini(value)
+        if (issue) throw new Error(`${label} ${param.label.toLowerCase()}: ${issue.message}`)
+        pattern = pattern[param.control](parseUnlocated(value))
+      } else {
+        pattern = pattern[param.control](value)
+      }
+    })
+  })
+  return pattern
+}
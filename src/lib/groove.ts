@@ -0,0 +1,84 @@
+import { Fraction, Hap, Pattern, TimeSpan } from '@strudel/web'
+
+// Steps per cycle the swing works on: 8ths or 16ths of a four-beat cycle
+export type SwingGrid = 8 | 16
+
+export interface GrooveSettings {
+  // MPC-style swing: where each off-beat step lands within its pair of steps,
+  // in percent. 50 is straight, 66.7 a triplet shuffle, 75 a dotted feel.
+  swing: number
+  grid: SwingGrid
+  // Humanize: random timing shift either way, as a fraction of one grid step
+  timing: number
+  // Humanize: random velocity drop, 0..1
+  velocity: number
+  // Same seed, same "random" feel every time the track plays
+  seed: number
+}
+
+export const DEFAULT_GROOVE: GrooveSettings = { swing: 50, grid: 16, timing: 0, velocity: 0, seed: 1 }
+
+export const MIN_SWING = 50
+export const MAX_SWING = 75
+
+export const GROOVE_TEMPLATES: Array<{ name: string; swing: number }> = [
+  { name: 'Straight', swing: 50 },
+  { name: 'MPC 54%', swing: 54 },
+  { name: 'MPC 58%', swing: 58 },
+  { name: 'MPC 62%', swing: 62 },
+  { name: 'Shuffle', swing: 200 / 3 },
+  { name: 'MPC 71%', swing: 71 },
+  { name: 'MPC 75%', swing: 75 },
+]
+
+// Template whose swing matches, if any
+export const templateFor = (swing: number) =>
+  GROOVE_TEMPLATES.find((template) => Math.abs(template.swing - swing) < 0.1)
+
+// Timing shifts are rounded to this many ticks per cycle, keeping the fractions small
+const TICKS_PER_CYCLE = 3840
+
+// Deterministic 0..1 value for a seed and a point in time
+function seededRandom(seed: number, time: number) {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(Math.round(time * TICKS_PER_CYCLE), 0xc2b2ae35)
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return (h >>> 0) / 4294967296
+}
+
+const ticks = (count: number) => Fraction(`${count}/${TICKS_PER_CYCLE}`)
+
+// Nudge every hap by a seeded random amount and lower its velocity. The query is
+// widened by the largest shift so haps pushed into the span from outside it are found.
+function humanize(pattern: any, { timing, velocity, seed, grid }: GrooveSettings) {
+  const maxTicks = Math.ceil((timing / grid) * TICKS_PER_CYCLE)
+  return new Pattern((state: any) => {
+    const { begin, end } = state.span
+    const wide = state.setSpan(new TimeSpan(begin.sub(ticks(maxTicks)), end.add(ticks(maxTicks))))
+    return pattern.query(wide).flatMap((hap: any) => {
+      const onset = (hap.whole ?? hap.part).begin.valueOf()
+      const shift = ticks(Math.round((seededRandom(seed, onset) * 2 - 1) * maxTicks))
+      const moved = hap.withSpan((span: any) => span.withTime((time: any) => time.add(shift)))
+      const part = moved.part.intersection(state.span)
+      if (!part) return []
+      const drop = 1 - velocity * seededRandom(seed + 1, onset)
+      const value =
+        typeof moved.value === 'object' ? { ...moved.value, velocity: (moved.value.velocity ?? 1) * drop } : moved.value
+      return [new Hap(moved.whole, part, value, moved.context)]
+    })
+  })
+}
+
+// Swing first, so humanize wobbles around the swung positions
+export function applyGroove(source: any, groove: GrooveSettings) {
+  let pattern = source
+  if (groove.swing !== MIN_SWING) {
+    // swingBy delays the second half of each pair by a fraction of that half
+    pattern = pattern.swingBy((groove.swing - MIN_SWING) / MIN_SWING, groove.grid / 2)
+  }
+  if (groove.timing > 0 || groove.velocity > 0) pattern = humanize(pattern, groove)
+  return pattern
+}
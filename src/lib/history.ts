@@ -0,0 +1,73 @@
+// Command-based undo/redo. Each entry knows how to redo and undo itself
+// against the whole state, so the history never stores full snapshots.
+
+export interface Command<T> {
+  label: string
+  // Consecutive commands with the same key, close together in time, merge into
+  // one entry (typing, dragging a slider)
+  coalesceKey?: string
+  redo: (state: T) => T
+  undo: (state: T) => T
+}
+
+export interface HistoryEntry<T> extends Command<T> {
+  // When the entry last changed, in ms
+  at: number
+}
+
+export interface History<T> {
+  present: T
+  entries: Array<HistoryEntry<T>>
+  // How many entries are applied to `present`; entries past it can be redone
+  position: number
+}
+
+// Edits this close together with the same key become one undo step
+export const COALESCE_MS = 1000
+// Oldest entries are dropped beyond this
+export const MAX_HISTORY = 200
+
+export const createHistory = <T>(present: T): History<T> => ({ present, entries: [], position: 0 })
+
+export function execute<T>(history: History<T>, command: Command<T>, now = Date.now()): History<T> {
+  const present = command.redo(history.present)
+  // A new edit discards anything that was undone
+  const entries = history.entries.slice(0, history.position)
+  const top = entries.at(-1)
+
+  if (top && command.coalesceKey && top.coalesceKey === command.coalesceKey && now - top.at < COALESCE_MS) {
+    entries[entries.length - 1] = {
+      label: top.label,
+      coalesceKey: top.coalesceKey,
+      at: now,
+      redo: (state) => command.redo(top.redo(state)),
+      undo: (state) => top.undo(command.undo(state)),
+    }
+    return { present, entries, position: entries.length }
+  }
+
+  entries.push({ ...command, at: now })
+  const trimmed = entries.slice(-MAX_HISTORY)
+  return { present, entries: trimmed, position: trimmed.length }
+}
+
+export function undo<T>(history: History<T>): History<T> {
+  if (history.position === 0) return history
+  const entry = history.entries[history.position - 1]
+  return { ...history, present: entry.undo(history.present), position: history.position - 1 }
+}
+
+export function redo<T>(history: History<T>): History<T> {
+  if (history.position === history.entries.length) return history
+  const entry = history.entries[history.position]
+  return { ...history, present: entry.redo(history.present), position: history.position + 1 }
+}
+
+// Undo or redo until `position` entries are applied
+export function jump<T>(history: History<T>, position: number): History<T> {
+  let current = history
+  const target = Math.max(0, Math.min(history.entries.length, position))
+  while (current.position > target) current = undo(current)
+  while (current.position < target) current = redo(current)
+  return current
+}
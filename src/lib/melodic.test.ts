@@ -0,0 +1,28 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { miniAllStrings } from '@strudel/web'
+import { DEFAULT_MELODIC, melodicSource } from '@/lib/melodic'
+
+const locations = (pattern: any) =>
+  pattern.queryArc(0, 1).map((hap: any) => hap.context.locations.map(({ start, end }: any) => [start, end]))
+
+describe('melodicSource', () => {
+  // As initStrudel does in the app
+  beforeAll(() => miniAllStrings())
+
+  it('pitches scale degrees and voices them', () => {
+    const values = melodicSource('0 2 4 6', DEFAULT_MELODIC)
+      .queryArc(0, 1)
+      .map((hap: any) => hap.value)
+    expect(values.map((value: any) => value.note)).toEqual(['C3', 'E3', 'G3', 'B3'])
+    expect(values[0]).toMatchObject({ s: 'sawtooth', attack: 0.01, sustain: 0.7 })
+  })
+
+  it('only reports locations in the track text', () => {
+    expect(locations(melodicSource('0 2 4 6', DEFAULT_MELODIC))).toEqual([[[1, 2]], [[3, 4]], [[5, 6]], [[7, 8]]])
+  })
+
+  it('only reports locations in the track text for chromatic notes', () => {
+    const chromatic = { ...DEFAULT_MELODIC, scale: 'chromatic', sound: 'square' }
+    expect(locations(melodicSource('c3 e3', chromatic))).toEqual([[[1, 3]], [[4, 6]]])
+  })
+})
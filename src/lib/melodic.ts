@@ -0,0 +1,65 @@
+import { n, note } from '@strudel/web'
+import { parseUnlocated } from '@/lib/miniHighlight'
+
+// Waveforms superdough (and the offline renderer) can synthesize without samples
+export const SYNTH_WAVEFORMS = ['sine', 'square', 'sawtooth', 'triangle']
+
+export const ROOTS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+// Scale names as @strudel/tonal knows them. With 'chromatic' the pattern holds
+// note names or MIDI numbers instead of scale degrees.
+export const SCALES = [
+  'chromatic',
+  'major',
+  'minor',
+  'dorian',
+  'phrygian',
+  'lydian',
+  'mixolydian',
+  'locrian',
+  'harmonic minor',
+  'melodic minor',
+  'major pentatonic',
+  'minor pentatonic',
+  'blues',
+]
+
+// How a melodic track turns its pattern into pitched notes
+export interface MelodicSettings {
+  scale: string
+  root: string
+  octave: number
+  // A synth waveform or the name of a loaded (pitched) sample
+  sound: string
+  // Envelope times in seconds, sustain as a 0..1 level
+  attack: number
+  decay: number
+  sustain: number
+  release: number
+}
+
+export const DEFAULT_MELODIC: MelodicSettings = {
+  scale: 'major',
+  root: 'C',
+  octave: 3,
+  sound: 'sawtooth',
+  attack: 0.01,
+  decay: 0.1,
+  sustain: 0.7,
+  release: 0.2,
+}
+
+// e.g. 'C3:minor:pentatonic'; colons because a space would split the mini-notation
+export const scaleName = ({ root, octave, scale }: MelodicSettings) =>
+  `${root}${octave}:${scale.replaceAll(' ', ':')}`
+
+// Pitch the pattern text (scale degrees, or notes for 'chromatic') and voice it
+export function melodicSource(text: string, melodic: MelodicSettings) {
+  const pitched = melodic.scale === 'chromatic' ? note(text) : n(text).scale(parseUnlocated(scaleName(melodic)))
+  return pitched
+    .s(parseUnlocated(melodic.sound))
+    .attack(melodic.attack)
+    .decay(melodic.decay)
+    .sustain(melodic.sustain)
+    .release(melodic.release)
+}
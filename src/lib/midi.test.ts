@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { MidiBackend, MidiOutputDevice } from '@/lib/midi'
+import { midiTrigger, setMidiBackend } from '@/lib/midi'
+
+// Output that records every message with its timestamp
+function fakeOutput(id: string) {
+  const sent: Array<[Array<number>, number | undefined]> = []
+  const output: MidiOutputDevice = { id, name: id, send: (data, timestamp) => sent.push([data, timestamp]) }
+  return { output, sent }
+}
+
+const fakeBackend = (outputs: Array<MidiOutputDevice>): MidiBackend => ({
+  outputs: () => outputs,
+  inputs: () => [],
+  onDevicesChanged: () => () => {},
+})
+
+const hap = (value: unknown, duration: number) => ({ value, duration: { valueOf: () => duration } })
+
+describe('midiTrigger', () => {
+  beforeEach(() => {
+    vi.spyOn(performance, 'now').mockReturnValue(1000)
+  })
+
+  afterEach(() => {
+    setMidiBackend(null)
+    vi.restoreAllMocks()
+  })
+
+  it('sends note on at the hap time and note off after its duration', () => {
+    const { output, sent } = fakeOutput('synth')
+    setMidiBackend(fakeBackend([output]))
+    const trigger = midiTrigger({ outputId: 'synth', channel: 3 })
+
+    // Hap due 0.5s from now, a quarter cycle long at 0.5 cycles per second
+    trigger(2, hap({ note: 60 }, 0.25), 1.5, 0.5)
+
+    expect(sent).toEqual([
+      [[0x92, 60, 127], 1500],
+      [[0x82, 60, 0], 2000],
+    ])
+  })
+
+  it('scales velocity by gain and maps drum sounds', () => {
+    const { output, sent } = fakeOutput('drums')
+    setMidiBackend(fakeBackend([output]))
+    const trigger = midiTrigger({ outputId: 'drums', channel: 10 })
+
+    trigger(1, hap({ s: 'bd', gain: 0.5 }, 0.5), 1, 1)
+
+    expect(sent).toEqual([
+      [[0x99, 36, 64], 1000],
+      [[0x89, 36, 0], 1500],
+    ])
+  })
+
+  it('sends nothing when the output is gone', () => {
+    const { output, sent } = fakeOutput('synth')
+    setMidiBackend(fakeBackend([output]))
+    const trigger = midiTrigger({ outputId: 'unplugged', channel: 1 })
+
+    trigger(1, hap({ note: 60 }, 1), 1, 1)
+
+    expect(sent).toEqual([])
+  })
+})
@@ -0,0 +1,122 @@
+import type { DrumMap } from '@/lib/midiExport'
+import { hapToMidiNote, loadDrumMap } from '@/lib/midiExport'
+
+// The slice of Web MIDI the app uses. Tests and other backends can supply their
+// own implementation instead of a real browser device.
+export interface MidiOutputDevice {
+  id: string
+  name: string
+  // `timestamp` is a performance.now() time in ms; omitted means send now
+  send: (data: Array<number>, timestamp?: number) => void
+}
+
+export interface MidiInputDevice {
+  id: string
+  name: string
+  // Returns a function that removes the listener
+  listen: (listener: (data: Uint8Array, timestamp: number) => void) => () => void
+}
+
+export interface MidiBackend {
+  outputs: () => Array<MidiOutputDevice>
+  inputs: () => Array<MidiInputDevice>
+  // Called when devices are plugged in or removed. Returns a function that removes the listener
+  onDevicesChanged: (listener: () => void) => () => void
+}
+
+// Where a track's haps go instead of the built-in sampler
+export interface MidiRouting {
+  outputId: string
+  // 1-based, as printed on hardware
+  channel: number
+}
+
+export async function requestWebMidi(): Promise<MidiBackend> {
+  if (!('requestMIDIAccess' in navigator)) {
+    throw new Error('Web MIDI is not supported in this browser')
+  }
+  const access = await navigator.requestMIDIAccess()
+  return {
+    outputs: () =>
+      Array.from(access.outputs.values()).map((port) => ({
+        id: port.id,
+        name: port.name ?? port.id,
+        send: (data, timestamp) => port.send(data, timestamp),
+      })),
+    inputs: () =>
+      Array.from(access.inputs.values()).map((port) => ({
+        id: port.id,
+        name: port.name ?? port.id,
+        listen: (listener) => {
+          const handler = (event: MIDIMessageEvent) => {
+            if (event.data) listener(event.data, event.timeStamp)
+          }
+          port.addEventListener('midimessage', handler)
+          return () => port.removeEventListener('midimessage', handler)
+        },
+      })),
+    onDevicesChanged: (listener) => {
+      access.addEventListener('statechange', listener)
+      return () => access.removeEventListener('statechange', listener)
+    },
+  }
+}
+
+// Backend the pattern triggers send through. Swapped out wholesale, never mutated.
+let activeBackend: MidiBackend | null = null
+
+export const setMidiBackend = (backend: MidiBackend | null) => {
+  activeBackend = backend
+}
+
+export const getMidiOutput = (id: string) => activeBackend?.outputs().find((output) => output.id === id)
+
+export const getMidiInput = (id: string) => activeBackend?.inputs().find((input) => input.id === id)
+
+// Message builders, channel is 1-based
+export const noteOn = (channel: number, note: number, velocity: number) => [0x90 | (channel - 1), note, velocity]
+export const noteOff = (channel: number, note: number) => [0x80 | (channel - 1), note, 0]
+export const controlChange = (channel: number, controller: number, value: number) => [
+  0xb0 | (channel - 1),
+  controller,
+  value,
+]
+
+const clamp7 = (value: number) => Math.min(127, Math.max(0, Math.round(value)))
+
+// Send one hap to a MIDI output: note on/off for pitched or mapped drum haps,
+// plus a CC when the hap carries `ccn`/`ccv` (ccv in 0..1).
+export function sendHap(
+  output: MidiOutputDevice,
+  routing: MidiRouting,
+  hap: any,
+  timestamp: number,
+  durationMs: number,
+  drumMap: DrumMap,
+) {
+  const value = hap.value
+  if (typeof value !== 'object') return
+
+  if (value.ccn !== undefined && value.ccv !== undefined) {
+    output.send(controlChange(routing.channel, clamp7(value.ccn), clamp7(value.ccv * 127)), timestamp)
+  }
+
+  const mapped = hapToMidiNote(value, drumMap)
+  if (!mapped) return
+  const note = clamp7(mapped.note)
+  const velocity = Math.max(1, clamp7(Math.min(1, (value.gain ?? 1) * (value.velocity ?? 1)) * 127))
+  output.send(noteOn(routing.channel, note, velocity), timestamp)
+  output.send(noteOff(routing.channel, note), timestamp + durationMs)
+}
+
+// Strudel onTrigger callback that routes haps to the given MIDI output.
+// Signature follows Strudel: (time, hap, currentTime, cps) with times in seconds.
+export const midiTrigger = (routing: MidiRouting) => {
+  const drumMap = loadDrumMap()
+  return (time: number, hap: any, currentTime: number, cps: number) => {
+    const output = getMidiOutput(routing.outputId)
+    if (!output) return
+    const timestamp = performance.now() + (time - currentTime) * 1000
+    sendHap(output, routing, hap, timestamp, (hap.duration.valueOf() / cps) * 1000, drumMap)
+  }
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { MidiInputDevice, MidiOutputDevice } from '@/lib/midi'
+import { MidiClockFollower, MidiClockSender } from '@/lib/midiClock'
+
+const CLOCK = 0xf8
+const START = 0xfa
+const STOP = 0xfc
+
+describe('MidiClockSender', () => {
+  let sent: Array<[Array<number>, number | undefined]>
+  let output: MidiOutputDevice
+  let cycle: number
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(performance, 'now').mockReturnValue(1000)
+    sent = []
+    output = { id: 'out', name: 'out', send: (data, timestamp) => sent.push([data, timestamp]) }
+    cycle = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  // 0.5 cycles per second with four beats per cycle is 120 BPM
+  const source = { cycle: () => cycle, cps: () => 0.5, beatsPerCycle: () => 4 }
+
+  it('sends start, then 24 pulses per beat ahead of the scheduler', () => {
+    const sender = new MidiClockSender(output, source)
+    sender.start()
+    expect(sent).toEqual([[[START], undefined]])
+
+    vi.advanceTimersByTime(25)
+    const pulses = sent.slice(1)
+    // 100ms of lookahead at 500ms per beat covers pulses 0-4
+    expect(pulses.map(([data]) => data)).toEqual(Array(5).fill([CLOCK]))
+    pulses.forEach(([, timestamp], pulse) => expect(timestamp).toBeCloseTo(1000 + (pulse * 500) / 24))
+    sender.stop()
+  })
+
+  it('does not resend pulses it already scheduled', () => {
+    const sender = new MidiClockSender(output, source)
+    sender.start()
+    vi.advanceTimersByTime(25)
+    const first = sent.length
+
+    // Two pulses later, only pulses 5 and 6 fall newly inside the lookahead
+    cycle = 2 / 96
+    vi.advanceTimersByTime(25)
+    const added = sent.slice(first)
+    expect(added).toHaveLength(2)
+    added.forEach(([, timestamp], i) => expect(timestamp).toBeCloseTo(1000 + ((i + 3) * 500) / 24))
+    sender.stop()
+  })
+
+  it('sends stop once and stops pulsing', () => {
+    const sender = new MidiClockSender(output, source)
+    sender.start()
+    sender.stop()
+    sender.stop()
+    vi.advanceTimersByTime(100)
+    expect(sent).toEqual([
+      [[START], undefined],
+      [[STOP], undefined],
+    ])
+  })
+})
+
+describe('MidiClockFollower', () => {
+  let listener: ((data: Uint8Array, timestamp: number) => void) | undefined
+  const input: MidiInputDevice = {
+    id: 'in',
+    name: 'in',
+    listen: (next) => {
+      listener = next
+      return () => (listener = undefined)
+    },
+  }
+  const receive = (status: number, timestamp = 0) => listener?.(new Uint8Array([status]), timestamp)
+
+  // One beat's worth of pulses plus the one that closes the window
+  const pulseBeat = (bpm: number, from = 0) => {
+    const interval = 60000 / bpm / 24
+    for (let i = 0; i <= 24; i++) receive(CLOCK, from + i * interval)
+  }
+
+  it('estimates the tempo from a beat of pulses', () => {
+    const onTempo = vi.fn()
+    new MidiClockFollower(input, { onTempo, onStart: vi.fn(), onStop: vi.fn() }).start()
+
+    pulseBeat(120)
+
+    expect(onTempo).toHaveBeenCalledTimes(1)
+    expect(onTempo.mock.calls[0][0]).toBeCloseTo(120)
+  })
+
+  it('ignores jitter below half a BPM', () => {
+    const onTempo = vi.fn()
+    new MidiClockFollower(input, { onTempo, onStart: vi.fn(), onStop: vi.fn() }).start()
+
+    pulseBeat(120)
+    receive(CLOCK, 500 + 60000 / 120.2 / 24)
+
+    expect(onTempo).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports start and stop, and forgets pulses on restart', () => {
+    const onTempo = vi.fn()
+    const onStart = vi.fn()
+    const onStop = vi.fn()
+    const follower = new MidiClockFollower(input, { onTempo, onStart, onStop })
+    follower.start()
+
+    receive(START)
+    for (let i = 0; i < 12; i++) receive(CLOCK, i * 20)
+    receive(START)
+    for (let i = 0; i < 12; i++) receive(CLOCK, 1000 + i * 20)
+    receive(STOP)
+
+    expect(onStart).toHaveBeenCalledTimes(2)
+    expect(onStop).toHaveBeenCalledTimes(1)
+    expect(onTempo).not.toHaveBeenCalled()
+  })
+
+  it('stops listening when stopped', () => {
+    const onTempo = vi.fn()
+    const follower = new MidiClockFollower(input, { onTempo, onStart: vi.fn(), onStop: vi.fn() })
+    follower.start()
+    follower.stop()
+
+    pulseBeat(120)
+
+    expect(onTempo).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,116 @@
+import type { MidiInputDevice, MidiOutputDevice } from '@/lib/midi'
+
+export type MidiClockMode = 'off' | 'send' | 'follow'
+
+// MIDI clock runs at 24 pulses per quarter note
+const PULSES_PER_BEAT = 24
+const CLOCK = 0xf8
+const START = 0xfa
+const CONTINUE = 0xfb
+const STOP = 0xfc
+
+// How often the sender wakes up, and how far ahead it schedules pulses
+const SEND_INTERVAL_MS = 25
+const LOOKAHEAD_MS = 100
+
+export interface ClockSource {
+  // Current scheduler position in cycles
+  cycle: () => number
+  cps: () => number
+  beatsPerCycle: () => number
+}
+
+// Sends clock pulses phase-locked to the scheduler, plus start/stop
+export class MidiClockSender {
+  private timer: ReturnType<typeof setInterval> | undefined
+  private lastPulse = -1
+
+  constructor(
+    private output: MidiOutputDevice,
+    private source: ClockSource,
+  ) {}
+
+  start() {
+    this.stop()
+    this.output.send([START])
+    this.lastPulse = -1
+    this.timer = setInterval(() => this.schedule(), SEND_INTERVAL_MS)
+  }
+
+  stop() {
+    if (this.timer === undefined) return
+    clearInterval(this.timer)
+    this.timer = undefined
+    this.output.send([STOP])
+  }
+
+  private schedule() {
+    const cps = this.source.cps()
+    const pulsesPerCycle = PULSES_PER_BEAT * this.source.beatsPerCycle()
+    const cycle = this.source.cycle()
+    const now = performance.now()
+    const horizon = cycle + (LOOKAHEAD_MS / 1000) * cps
+
+    for (
+      let pulse = Math.max(this.lastPulse + 1, Math.ceil(cycle * pulsesPerCycle));
+      pulse / pulsesPerCycle < horizon;
+      pulse++
+    ) {
+      const secondsAhead = (pulse / pulsesPerCycle - cycle) / cps
+      this.output.send([CLOCK], now + secondsAhead * 1000)
+      this.lastPulse = pulse
+    }
+  }
+}
+
+export interface ClockFollowerEvents {
+  onTempo: (bpm: number) => void
+  onStart: () => void
+  onStop: () => void
+}
+
+// Pulses averaged for the tempo estimate (one beat)
+const FOLLOW_WINDOW = PULSES_PER_BEAT
+// Ignore jitter smaller than this before reporting a new tempo
+const FOLLOW_TOLERANCE_BPM = 0.5
+
+// Listens to incoming clock and transport messages and reports tempo changes
+export class MidiClockFollower {
+  private pulses: Array<number> = []
+  private lastBpm = 0
+  private unlisten: (() => void) | undefined
+
+  constructor(
+    private input: MidiInputDevice,
+    private events: ClockFollowerEvents,
+  ) {}
+
+  start() {
+    this.stop()
+    this.unlisten = this.input.listen((data, timestamp) => this.handle(data[0], timestamp))
+  }
+
+  stop() {
+    this.unlisten?.()
+    this.unlisten = undefined
+    this.pulses = []
+  }
+
+  private handle(status: number, timestamp: number) {
+    if (status === START || status === CONTINUE) {
+      this.pulses = []
+      this.events.onStart()
+    } else if (status === STOP) {
+      this.events.onStop()
+    } else if (status === CLOCK) {
+      this.pulses = [...this.pulses, timestamp].slice(-(FOLLOW_WINDOW + 1))
+      if (this.pulses.length <= FOLLOW_WINDOW) return
+      const interval = (this.pulses[this.pulses.length - 1] - this.pulses[0]) / FOLLOW_WINDOW
+      const bpm = 60000 / (interval * PULSES_PER_BEAT)
+      if (Math.abs(bpm - this.lastBpm) >= FOLLOW_TOLERANCE_BPM) {
+        this.lastBpm = bpm
+        this.events.onTempo(bpm)
+      }
+    }
+  }
+}
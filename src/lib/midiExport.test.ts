@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_DRUM_MAP, hapToMidiNote } from '@/lib/midiExport'
+
+describe('hapToMidiNote', () => {
+  it('prefers explicit notes over the drum map', () => {
+    expect(hapToMidiNote({ note: 60, s: 'bd' }, DEFAULT_DRUM_MAP)).toEqual({ note: 60, drum: false })
+    expect(hapToMidiNote({ note: 'a4' }, DEFAULT_DRUM_MAP)).toEqual({ note: 69, drum: false })
+  })
+
+  it('maps sample names through the drum map', () => {
+    expect(hapToMidiNote({ s: 'sd' }, DEFAULT_DRUM_MAP)).toEqual({ note: 38, drum: true })
+    expect(hapToMidiNote({ s: 'unknown' }, DEFAULT_DRUM_MAP)).toBeNull()
+  })
+
+  it('skips values that are not objects, including null', () => {
+    expect(hapToMidiNote(null, DEFAULT_DRUM_MAP)).toBeNull()
+    expect(hapToMidiNote('bd', DEFAULT_DRUM_MAP)).toBeNull()
+  })
+})
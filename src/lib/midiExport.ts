@@ -0,0 +1,92 @@
+import { noteToMidi } from '@strudel/web'
+import type { MidiNote, MidiTrack } from '@/lib/midiFile'
+import { writeMidiFile } from '@/lib/midiFile'
+
+// Sample name -> General MIDI drum note
+export type DrumMap = Record<string, number>
+
+export const DEFAULT_DRUM_MAP: DrumMap = {
+  bd: 36,
+  rim: 37,
+  sd: 38,
+  cp: 39,
+  lt: 41,
+  hh: 42,
+  mt: 45,
+  oh: 46,
+  ht: 48,
+  cr: 49,
+  rd: 51,
+  cb: 56,
+}
+
+const DRUM_MAP_KEY = 'beatbakery:drum-map'
+const DRUM_CHANNEL = 9
+const TICKS_PER_BEAT = 480
+
+export function loadDrumMap(): DrumMap {
+  try {
+    const stored = localStorage.getItem(DRUM_MAP_KEY)
+    return stored ? (JSON.parse(stored) as DrumMap) : DEFAULT_DRUM_MAP
+  } catch {
+    return DEFAULT_DRUM_MAP
+  }
+}
+
+export const saveDrumMap = (map: DrumMap) => localStorage.setItem(DRUM_MAP_KEY, JSON.stringify(map))
+
+export interface MidiExportOptions {
+  cycles: number
+  bpm: number
+  beatsPerCycle: number
+  drumMap: DrumMap
+}
+
+// Pitch of a hap: explicit notes win, then the drum table for sample names
+export const hapToMidiNote = (value: any, drumMap: DrumMap): { note: number; drum: boolean } | null => {
+  if (value === null || typeof value !== 'object') return null
+  const pitch = value.note ?? (value.s === undefined ? value.n : undefined)
+  if (pitch !== undefined) {
+    return { note: typeof pitch === 'number' ? pitch : noteToMidi(pitch), drum: false }
+  }
+  if (typeof value.s === 'string' && value.s in drumMap) {
+    return { note: drumMap[value.s], drum: true }
+  }
+  return null
+}
+
+// Collect one pattern's haps over the chosen cycles as MIDI notes. Velocity comes from gain.
+export function patternToMidiTrack(
+  name: string,
+  pattern: any,
+  { cycles, beatsPerCycle, drumMap }: MidiExportOptions,
+): MidiTrack {
+  const ticksPerCycle = TICKS_PER_BEAT * beatsPerCycle
+  const notes: Array<MidiNote> = []
+  pattern
+    .queryArc(0, cycles)
+    .filter((hap: any) => hap.hasOnset())
+    .forEach((hap: any) => {
+      const mapped = hapToMidiNote(hap.value, drumMap)
+      if (!mapped) return
+      const level = Math.min(1, (hap.value.gain ?? 1) * (hap.value.velocity ?? 1))
+      notes.push({
+        tick: hap.whole.begin.valueOf() * ticksPerCycle,
+        duration: hap.duration.valueOf() * ticksPerCycle,
+        note: mapped.note,
+        velocity: level * 127,
+        channel: mapped.drum ? DRUM_CHANNEL : 0,
+      })
+    })
+  return { name, notes }
+}
+
+// Build a Type 1 .mid with one MIDI track per track
+export function exportMidi(tracks: Array<{ name: string; pattern: any }>, options: MidiExportOptions) {
+  return writeMidiFile({
+    ticksPerBeat: TICKS_PER_BEAT,
+    bpm: options.bpm,
+    beatsPerBar: options.beatsPerCycle,
+    tracks: tracks.map(({ name, pattern }) => patternToMidiTrack(name, pattern, options)),
+  })
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { encodeVarLen, writeMidiFile } from '@/lib/midiFile'
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.slice(start, start + length))
+
+const uint32At = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+
+// Split a file into its chunks, [type, body]
+function chunks(bytes: Uint8Array) {
+  const result: Array<[string, Uint8Array]> = []
+  let offset = 0
+  while (offset < bytes.length) {
+    const length = uint32At(bytes, offset + 4)
+    result.push([ascii(bytes, offset, 4), bytes.slice(offset + 8, offset + 8 + length)])
+    offset += 8 + length
+  }
+  return result
+}
+
+describe('encodeVarLen', () => {
+  it('encodes 7 bits per byte, most significant first', () => {
+    expect(encodeVarLen(0)).toEqual([0x00])
+    expect(encodeVarLen(0x7f)).toEqual([0x7f])
+    expect(encodeVarLen(0x80)).toEqual([0x81, 0x00])
+    expect(encodeVarLen(480)).toEqual([0x83, 0x60])
+    expect(encodeVarLen(0x0fffffff)).toEqual([0xff, 0xff, 0xff, 0x7f])
+  })
+})
+
+describe('writeMidiFile', () => {
+  const file = writeMidiFile({
+    ticksPerBeat: 480,
+    bpm: 120,
+    beatsPerBar: 4,
+    tracks: [
+      {
+        name: 'Kick',
+        notes: [
+          { tick: 0, duration: 240, note: 36, velocity: 100, channel: 9 },
+          // Starts on the tick the first note ends
+          { tick: 240, duration: 240, note: 36, velocity: 200, channel: 9 },
+        ],
+      },
+    ],
+  })
+  const [[headerType, header], [conductorType, conductor], [trackType, track]] = chunks(file)
+
+  it('writes a Type 1 MThd header with one track per input plus the conductor', () => {
+    expect(headerType).toBe('MThd')
+    expect(Array.from(header)).toEqual([0x00, 0x01, 0x00, 0x02, 0x01, 0xe0])
+    expect(conductorType).toBe('MTrk')
+    expect(trackType).toBe('MTrk')
+  })
+
+  it('puts tempo and time signature in the conductor track', () => {
+    expect(Array.from(conductor)).toEqual([
+      // Track name "Tempo"
+      0x00, 0xff, 0x03, 0x05, ...Array.from(new TextEncoder().encode('Tempo')),
+      // 500000 µs per beat is 120 BPM
+      0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20,
+      // 4/4
+      0x00, 0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08,
+      // End of track
+      0x00, 0xff, 0x2f, 0x00,
+    ])
+  })
+
+  it('writes delta times and sorts note-offs before note-ons on the same tick', () => {
+    expect(Array.from(track)).toEqual([
+      0x00, 0xff, 0x03, 0x04, ...Array.from(new TextEncoder().encode('Kick')),
+      0x00, 0x99, 36, 100,
+      // 240 ticks later: the first note ends before the second starts
+      0x81, 0x70, 0x89, 36, 0,
+      0x00, 0x99, 36, 127,
+      0x81, 0x70, 0x89, 36, 0,
+      0x00, 0xff, 0x2f, 0x00,
+    ])
+  })
+})
@@ -0,0 +1,96 @@
+export interface MidiNote {
+  // Start and length in ticks
+  tick: number
+  duration: number
+  note: number
+  velocity: number
+  // 0-based MIDI channel (9 is the General MIDI drum channel)
+  channel: number
+}
+
+export interface MidiTrack {
+  name: string
+  notes: Array<MidiNote>
+}
+
+export interface MidiFileOptions {
+  ticksPerBeat: number
+  bpm: number
+  // Beats per bar for the time signature meta event (x/4)
+  beatsPerBar: number
+  tracks: Array<MidiTrack>
+}
+
+// Variable-length quantity, 7 bits per byte, most significant first
+export function encodeVarLen(value: number): Array<number> {
+  let remaining = Math.max(0, Math.round(value))
+  const bytes = [remaining & 0x7f]
+  remaining >>= 7
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80)
+    remaining >>= 7
+  }
+  return bytes
+}
+
+const textBytes = (text: string) => Array.from(new TextEncoder().encode(text))
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+
+const chunk = (type: string, data: Array<number>) => [...textBytes(type), ...uint32(data.length), ...data]
+
+const clamp7 = (value: number) => Math.min(127, Math.max(0, Math.round(value)))
+
+interface TimedEvent {
+  tick: number
+  bytes: Array<number>
+}
+
+// Turn absolute-time events into a track chunk body with delta times and End of Track
+function trackData(events: Array<TimedEvent>) {
+  // Stable sort keeps note-offs (added first) ahead of note-ons on the same tick
+  const sorted = [...events].sort((a, b) => a.tick - b.tick)
+  const data: Array<number> = []
+  let lastTick = 0
+  sorted.forEach(({ tick, bytes }) => {
+    data.push(...encodeVarLen(tick - lastTick), ...bytes)
+    lastTick = tick
+  })
+  data.push(0x00, 0xff, 0x2f, 0x00)
+  return data
+}
+
+const trackName = (name: string): TimedEvent => {
+  const bytes = textBytes(name)
+  return { tick: 0, bytes: [0xff, 0x03, ...encodeVarLen(bytes.length), ...bytes] }
+}
+
+// Write a Type 1 Standard MIDI File: a conductor track with tempo and time
+// signature, then one track per entry in `tracks`.
+export function writeMidiFile({ ticksPerBeat, bpm, beatsPerBar, tracks }: MidiFileOptions): Uint8Array {
+  const header = chunk('MThd', [0x00, 0x01, (tracks.length + 1) >> 8, (tracks.length + 1) & 0xff, ticksPerBeat >> 8, ticksPerBeat & 0xff])
+
+  const microsPerBeat = Math.round(60_000_000 / bpm)
+  const conductor = chunk(
+    'MTrk',
+    trackData([
+      trackName('Tempo'),
+      { tick: 0, bytes: [0xff, 0x51, 0x03, (microsPerBeat >> 16) & 0xff, (microsPerBeat >> 8) & 0xff, microsPerBeat & 0xff] },
+      // x/4 time, 24 clocks per click, 8 32nds per quarter
+      { tick: 0, bytes: [0xff, 0x58, 0x04, beatsPerBar, 0x02, 24, 8] },
+    ]),
+  )
+
+  const trackChunks = tracks.map((track) => {
+    const events: Array<TimedEvent> = [trackName(track.name)]
+    const offs: Array<TimedEvent> = []
+    track.notes.forEach(({ tick, duration, note, velocity, channel }) => {
+      const status = channel & 0x0f
+      offs.push({ tick: Math.round(tick + Math.max(1, duration)), bytes: [0x80 | status, clamp7(note), 0] })
+      events.push({ tick: Math.round(tick), bytes: [0x90 | status, clamp7(note), Math.max(1, clamp7(velocity))] })
+    })
+    return chunk('MTrk', trackData([...offs, ...events]))
+  })
+
+  return new Uint8Array([...header, ...conductor, ...trackChunks.flat()])
+}
@@ -0,0 +1,136 @@
+import { reify } from '@strudel/web'
+
+export type TokenKind = 'step' | 'rest' | 'group' | 'alternation' | 'polymeter' | 'euclid' | 'operator' | 'number'
+
+export interface Token {
+  kind: TokenKind
+  // Character range in the pattern text, end exclusive
+  start: number
+  end: number
+}
+
+// A class name applied to a character range when rendering the editor overlay
+export interface Decoration {
+  start: number
+  end: number
+  className: string
+}
+
+const BRACKET_KINDS: Record<string, TokenKind> = {
+  '[': 'group',
+  ']': 'group',
+  '<': 'alternation',
+  '>': 'alternation',
+  '{': 'polymeter',
+  '}': 'polymeter',
+  '(': 'euclid',
+  ')': 'euclid',
+}
+const OPENERS: Record<string, string> = { '[': ']', '<': '>', '{': '}', '(': ')' }
+const CLOSERS: Record<string, string> = { ']': '[', '>': '<', '}': '{', ')': '(' }
+const OPERATORS = new Set(['*', '/', '!', '?', '@', ':', ',', '|', '.', '_', '%'])
+const NUMBER = /^-?(\d+(\.\d+)?|\.\d+)/
+const WORD = /^[\w#'-]+/
+
+// Split mini-notation into highlightable tokens. Whitespace is left out and
+// anything unrecognised is marked as an operator, so the tokenizer never fails.
+export function tokenizeMini(text: string): Array<Token> {
+  const tokens: Array<Token> = []
+  let index = 0
+  while (index < text.length) {
+    const char = text[index]
+    if (/\s/.test(char)) {
+      index++
+    } else if (char in BRACKET_KINDS) {
+      tokens.push({ kind: BRACKET_KINDS[char], start: index, end: index + 1 })
+      index++
+    } else if (char === '~') {
+      tokens.push({ kind: 'rest', start: index, end: index + 1 })
+      index++
+    } else {
+      const rest = text.slice(index)
+      const number = NUMBER.exec(rest)
+      const word = number ? null : WORD.exec(rest)
+      if (number) {
+        tokens.push({ kind: 'number', start: index, end: index + number[0].length })
+        index += number[0].length
+      } else if (OPERATORS.has(char) || !word) {
+        tokens.push({ kind: 'operator', start: index, end: index + 1 })
+        index++
+      } else {
+        tokens.push({ kind: 'step', start: index, end: index + word[0].length })
+        index += word[0].length
+      }
+    }
+  }
+  return tokens
+}
+
+// Index of the bracket that pairs with the one at `index`, or null
+function findPartner(text: string, index: number): number | null {
+  const char = text[index]
+  const forward = char in OPENERS
+  const partner = forward ? OPENERS[char] : CLOSERS[char]
+  let depth = 0
+  for (let i = index; forward ? i < text.length : i >= 0; i += forward ? 1 : -1) {
+    if (text[i] === char) depth++
+    else if (text[i] === partner && --depth === 0) return i
+  }
+  return null
+}
+
+// The bracket pair touching the caret (just after or just before it), if any
+export function matchBracket(text: string, caret: number): [number, number] | null {
+  for (const index of [caret - 1, caret]) {
+    const char = text[index] as string | undefined
+    if (char && (char in OPENERS || char in CLOSERS)) {
+      const partner = findPartner(text, index)
+      if (partner !== null) return index < partner ? [index, partner] : [partner, index]
+    }
+  }
+  return null
+}
+
+// Word being typed at the caret, for autocomplete. Sample indices after `:` don't count.
+export function wordAt(text: string, caret: number): { start: number; word: string } | null {
+  let start = caret
+  while (start > 0 && /[\w-]/.test(text[start - 1])) start--
+  const word = text.slice(start, caret)
+  if (!word || /^\d/.test(word) || text[start - 1] === ':') return null
+  return { start, word }
+}
+
+// Cut the text into runs that share the same set of decorations
+export function decorate(text: string, decorations: Array<Decoration>) {
+  const cuts = new Set([0, text.length])
+  decorations.forEach(({ start, end }) => {
+    cuts.add(Math.max(0, Math.min(text.length, start)))
+    cuts.add(Math.max(0, Math.min(text.length, end)))
+  })
+  const sorted = [...cuts].sort((a, b) => a - b)
+  return sorted.slice(1).map((end, i) => {
+    const start = sorted[i]
+    const className = decorations
+      .filter((decoration) => decoration.start <= start && decoration.end >= end && decoration.start < decoration.end)
+      .map((decoration) => decoration.className)
+      .join(' ')
+    return { start, end, text: text.slice(start, end), className }
+  })
+}
+
+// Insert a step at the caret, adding spaces so it doesn't merge with its neighbours
+export function insertStep(text: string, caret: number, step: string): { text: string; caret: number } {
+  const at = Math.max(0, Math.min(text.length, caret))
+  const before = text.slice(0, at)
+  const after = text.slice(at)
+  const lead = before && !/[\s[<{(,]$/.test(before) ? ' ' : ''
+  const trail = after && !/^[\s\]>}),]/.test(after) ? ' ' : ''
+  const inserted = `${lead}${step}${trail}`
+  return { text: before + inserted + after, caret: at + lead.length + step.length }
+}
+
+// Parse a setting such as a scale or sound name as mini-notation, minus the text
+// ranges its haps would carry. Those ranges point into the setting's own string,
+// so left in they would light up unrelated characters of the track's pattern.
+export const parseUnlocated = (value: string) =>
+  reify(value).withContext(({ locations: _locations, ...context }: any) => context)
@@ -0,0 +1,65 @@
+import { parse } from '@strudel/mini'
+
+export interface PatternIssue {
+  message: string
+  // Character range in the pattern text, end exclusive
+  start: number
+  end: number
+}
+
+const BRACKETS: Record<string, string> = { '[': ']', '<': '>', '{': '}', '(': ')' }
+const CLOSERS = new Set(Object.values(BRACKETS))
+
+// Unbalanced brackets get a direct message pointing at the culprit, which reads
+// better than the parser's list of expected tokens
+function checkBrackets(text: string): PatternIssue | null {
+  const open: Array<{ char: string; index: number }> = []
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (char in BRACKETS) {
+      open.push({ char, index })
+    } else if (CLOSERS.has(char)) {
+      const last = open.pop()
+      if (!last) {
+        return { message: `Unexpected "${char}" with nothing to close`, start: index, end: index + 1 }
+      }
+      if (BRACKETS[last.char] !== char) {
+        return {
+          message: `"${last.char}" is closed by "${char}", expected "${BRACKETS[last.char]}"`,
+          start: index,
+          end: index + 1,
+        }
+      }
+    }
+  }
+  const unclosed = open.pop()
+  if (unclosed) {
+    return {
+      message: `"${unclosed.char}" is never closed, add "${BRACKETS[unclosed.char]}"`,
+      start: unclosed.index,
+      end: unclosed.index + 1,
+    }
+  }
+  return null
+}
+
+// Parse a track's mini-notation and report the first problem, or null if it parses
+export function validateMini(text: string): PatternIssue | null {
+  if (!text.trim()) return null
+  const bracketIssue = checkBrackets(text)
+  if (bracketIssue) return bracketIssue
+
+  try {
+    // The parser expects a quoted string, so its offsets are one past ours
+    parse(`"${text}"`)
+    return null
+  } catch (error: any) {
+    const start = Math.max(0, Math.min(text.length - 1, (error.location?.start.offset ?? 1) - 1))
+    const found = typeof error.found === 'string' && error.found !== '"' ? `"${error.found}"` : 'end of pattern'
+    return {
+      message: error.location ? `Unexpected ${found} at column ${start + 1}` : String(error.message),
+      start,
+      end: Math.max(start + 1, Math.min(text.length, (error.location?.end.offset ?? 1) - 1)),
+    }
+  }
+}
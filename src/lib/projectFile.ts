@@ -0,0 +1,325 @@
+import type { Project, ProjectData } from '@/lib/projects'
+import { PROJECT_SCHEMA_VERSION, migrateProject } from '@/lib/projects'
+import { safeFileName } from '@/lib/download'
+import { ROOTS, SCALES } from '@/lib/melodic'
+import { EFFECTS } from '@/lib/effects'
+import { MAX_SWING, MIN_SWING } from '@/lib/groove'
+import { SIMPLE_KINDS, TRANSFORM_PARAMS } from '@/lib/transforms'
+
+export const PROJECT_FILE_EXTENSION = '.beatbakery.json'
+const PROJECT_FILE_FORMAT = 'beatbakery-project'
+
+// On-disk shape of an exported project
+export interface ProjectFile extends Omit<ProjectData, 'nextId'> {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  name: string
+  exportedAt: string
+}
+
+export interface FieldError {
+  // Where the problem is, e.g. `tracks[1].gain`
+  path: string
+  message: string
+}
+
+export type ParseResult =
+  | { ok: true; file: ProjectFile }
+  | { ok: false; errors: Array<FieldError> }
+
+export function toProjectFile(project: Project): ProjectFile {
+  const { name, tracks, volume, tempo, scenes, arrangement } = project
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    name,
+    tracks,
+    volume,
+    tempo,
+    scenes,
+    arrangement,
+    exportedAt: new Date().toISOString(),
+  }
+}
+
+export const projectFileName = (name: string) => `${safeFileName(name)}${PROJECT_FILE_EXTENSION}`
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Collects field errors while walking a value
+class Checker {
+  errors: Array<FieldError> = []
+
+  fail(path: string, message: string) {
+    this.errors.push({ path, message })
+  }
+
+  string(value: unknown, path: string) {
+    if (typeof value !== 'string') this.fail(path, 'must be text')
+  }
+
+  boolean(value: unknown, path: string) {
+    if (typeof value !== 'boolean') this.fail(path, 'must be true or false')
+  }
+
+  oneOf(value: unknown, path: string, options: Array<string>) {
+    if (typeof value !== 'string' || !options.includes(value)) {
+      this.fail(path, `must be one of ${options.map((option) => `"${option}"`).join(', ')}`)
+    }
+  }
+
+  number(value: unknown, path: string, min: number, max: number) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      this.fail(path, `must be a number between ${min} and ${max}`)
+    }
+  }
+}
+
+// Check an already migrated file against the current schema
+function checkProjectFile(file: Record<string, any>, check: Checker) {
+  check.string(file.name, 'name')
+  check.number(file.volume, 'volume', 0, 1)
+
+  if (!isObject(file.tempo)) {
+    check.fail('tempo', 'must be an object with cps and beatsPerCycle')
+  } else {
+    check.number(file.tempo.cps, 'tempo.cps', 0.01, 10)
+    check.number(file.tempo.beatsPerCycle, 'tempo.beatsPerCycle', 1, 16)
+  }
+
+  checkScenes(file, check)
+
+  if (!Array.isArray(file.tracks)) {
+    check.fail('tracks', 'must be a list of tracks')
+    return
+  }
+  const seenIds = new Set<string>()
+  file.tracks.forEach((track: unknown, index: number) => {
+    const path = `tracks[${index}]`
+    if (!isObject(track)) {
+      check.fail(path, 'must be an object')
+      return
+    }
+    if (typeof track.id !== 'string' || !track.id) {
+      check.fail(`${path}.id`, 'must be non-empty text')
+    } else if (seenIds.has(track.id)) {
+      check.fail(`${path}.id`, `duplicates the id "${track.id}" of an earlier track`)
+    } else {
+      seenIds.add(track.id)
+    }
+    check.string(track.name, `${path}.name`)
+    check.string(track.pattern, `${path}.pattern`)
+    check.oneOf(track.mode, `${path}.mode`, ['mini', 'code'])
+    checkTransforms(track.transforms, `${path}.transforms`, check)
+    check.number(track.gain, `${path}.gain`, 0, 2)
+    check.number(track.pan, `${path}.pan`, 0, 1)
+    check.boolean(track.muted, `${path}.muted`)
+    check.boolean(track.soloed, `${path}.soloed`)
+    if (track.melodic !== null) {
+      checkMelodic(track.melodic, `${path}.melodic`, check)
+    }
+    checkEffects(track.effects, `${path}.effects`, check)
+    checkGroove(track.groove, `${path}.groove`, check)
+    if (track.midi !== null) {
+      if (!isObject(track.midi)) {
+        check.fail(`${path}.midi`, 'must be null or an object with outputId and channel')
+      } else {
+        check.string(track.midi.outputId, `${path}.midi.outputId`)
+        check.number(track.midi.channel, `${path}.midi.channel`, 1, 16)
+      }
+    }
+  })
+}
+
+function checkTransform(transform: unknown, path: string, check: Checker, kinds: Array<string>) {
+  if (!isObject(transform)) {
+    check.fail(path, 'must be an object with a kind')
+    return
+  }
+  check.oneOf(transform.kind, `${path}.kind`, kinds)
+  const params = Object.entries(TRANSFORM_PARAMS).find(([kind]) => kind === transform.kind)?.[1] ?? []
+  params.forEach(({ key, min, max }) => check.number(transform[key], `${path}.${key}`, min, max))
+  // `every` wraps one of the others
+  if (transform.kind === 'every') checkTransform(transform.transform, `${path}.transform`, check, SIMPLE_KINDS)
+}
+
+function checkTransforms(transforms: unknown, path: string, check: Checker) {
+  if (!Array.isArray(transforms)) {
+    check.fail(path, 'must be a list of transforms')
+    return
+  }
+  transforms.forEach((transform, index) =>
+    checkTransform(transform, `${path}[${index}]`, check, Object.keys(TRANSFORM_PARAMS)),
+  )
+}
+
+function checkMelodic(melodic: unknown, path: string, check: Checker) {
+  if (!isObject(melodic)) {
+    check.fail(path, 'must be null or an object with scale, root, sound and envelope')
+    return
+  }
+  check.oneOf(melodic.scale, `${path}.scale`, SCALES)
+  check.oneOf(melodic.root, `${path}.root`, ROOTS)
+  check.number(melodic.octave, `${path}.octave`, 0, 8)
+  check.string(melodic.sound, `${path}.sound`)
+  check.number(melodic.attack, `${path}.attack`, 0, 10)
+  check.number(melodic.decay, `${path}.decay`, 0, 10)
+  check.number(melodic.sustain, `${path}.sustain`, 0, 1)
+  check.number(melodic.release, `${path}.release`, 0, 10)
+}
+
+// Each parameter is a number in range or a pattern string (checked when compiled)
+function checkEffects(effects: unknown, path: string, check: Checker) {
+  if (!isObject(effects)) {
+    check.fail(path, 'must be an object of effects')
+    return
+  }
+  Object.entries(effects).forEach(([id, values]) => {
+    const spec = EFFECTS.find((effect) => effect.id === id)
+    if (!spec) {
+      check.fail(`${path}.${id}`, `is not an effect, expected one of ${EFFECTS.map((e) => e.id).join(', ')}`)
+      return
+    }
+    if (!isObject(values)) {
+      check.fail(`${path}.${id}`, 'must map parameters to values')
+      return
+    }
+    spec.params.forEach(({ control, min, max }) => {
+      const value = values[control]
+      if (typeof value !== 'string') check.number(value, `${path}.${id}.${control}`, min, max)
+    })
+  })
+}
+
+function checkGroove(groove: unknown, path: string, check: Checker) {
+  if (!isObject(groove)) {
+    check.fail(path, 'must be an object with swing, grid and humanize settings')
+    return
+  }
+  check.number(groove.swing, `${path}.swing`, MIN_SWING, MAX_SWING)
+  if (groove.grid !== 8 && groove.grid !== 16) check.fail(`${path}.grid`, 'must be 8 or 16')
+  check.number(groove.timing, `${path}.timing`, 0, 0.5)
+  check.number(groove.velocity, `${path}.velocity`, 0, 1)
+  check.number(groove.seed, `${path}.seed`, 0, 2 ** 31)
+}
+
+// Scenes refer to tracks by id and the arrangement refers to scenes by id;
+// dangling references are tolerated (they play nothing), bad shapes are not
+function checkScenes(file: Record<string, any>, check: Checker) {
+  const sceneIds = new Set<string>()
+  if (!Array.isArray(file.scenes)) {
+    check.fail('scenes', 'must be a list of scenes')
+  } else {
+    file.scenes.forEach((scene: unknown, index: number) => {
+      const path = `scenes[${index}]`
+      if (!isObject(scene)) {
+        check.fail(path, 'must be an object')
+        return
+      }
+      if (typeof scene.id !== 'string' || !scene.id) {
+        check.fail(`${path}.id`, 'must be non-empty text')
+      } else if (sceneIds.has(scene.id)) {
+        check.fail(`${path}.id`, `duplicates the id "${scene.id}" of an earlier scene`)
+      } else {
+        sceneIds.add(scene.id)
+      }
+      check.string(scene.name, `${path}.name`)
+      if (!isObject(scene.tracks)) {
+        check.fail(`${path}.tracks`, 'must map track ids to gain and pan')
+        return
+      }
+      Object.entries(scene.tracks).forEach(([trackId, settings]) => {
+        const trackPath = `${path}.tracks.${trackId}`
+        if (!isObject(settings)) {
+          check.fail(trackPath, 'must be an object with gain and pan')
+          return
+        }
+        check.number(settings.gain, `${trackPath}.gain`, 0, 2)
+        check.number(settings.pan, `${trackPath}.pan`, 0, 1)
+      })
+    })
+  }
+
+  const { arrangement } = file
+  if (!isObject(arrangement) || !Array.isArray(arrangement.entries)) {
+    check.fail('arrangement', 'must be an object with a list of entries')
+    return
+  }
+  arrangement.entries.forEach((entry: unknown, index: number) => {
+    const path = `arrangement.entries[${index}]`
+    if (!isObject(entry)) {
+      check.fail(path, 'must be an object with sceneId and cycles')
+      return
+    }
+    check.string(entry.sceneId, `${path}.sceneId`)
+    check.number(entry.cycles, `${path}.cycles`, 1, 1024)
+  })
+  if (arrangement.loop !== null) {
+    if (!isObject(arrangement.loop)) {
+      check.fail('arrangement.loop', 'must be null or an object with start and end')
+    } else {
+      const last = Math.max(0, arrangement.entries.length - 1)
+      check.number(arrangement.loop.start, 'arrangement.loop.start', 0, last)
+      check.number(arrangement.loop.end, 'arrangement.loop.end', 0, last)
+    }
+  }
+}
+
+export type SharedParseResult =
+  | { ok: true; project: Project }
+  | { ok: false; errors: Array<FieldError> }
+
+// Version check, migration and schema check, shared by project files and share links.
+// Returns the upgraded project, or null once `check` has errors.
+function checkVersionedProject(raw: Record<string, any>, check: Checker): Project | null {
+  const version = raw.version ?? 0
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    check.fail('version', 'must be a whole number')
+  } else if (version > PROJECT_SCHEMA_VERSION) {
+    check.fail('version', `file is version ${version}, this app only reads up to ${PROJECT_SCHEMA_VERSION}`)
+  }
+  if (!Array.isArray(raw.tracks)) {
+    check.fail('tracks', 'must be a list of tracks')
+  }
+  if (check.errors.length > 0) return null
+
+  const project = migrateProject(raw)
+  checkProjectFile(project, check)
+  return check.errors.length > 0 ? null : project
+}
+
+// Validate and upgrade parsed JSON from a project file
+export function parseProjectFile(raw: unknown): ParseResult {
+  const check = new Checker()
+  if (!isObject(raw)) {
+    check.fail('', 'file does not contain a project')
+    return { ok: false, errors: check.errors }
+  }
+  if (raw.format !== PROJECT_FILE_FORMAT) {
+    check.fail('format', `must be "${PROJECT_FILE_FORMAT}"`)
+  }
+  const file = checkVersionedProject(raw, check)
+  if (!file) return { ok: false, errors: check.errors }
+  return { ok: true, file: file as unknown as ProjectFile }
+}
+
+// Validate and upgrade the decoded JSON of a share link. Links carry no file format
+// marker, but otherwise get the same checks as an imported file.
+export function parseSharedProject(raw: unknown): SharedParseResult {
+  const check = new Checker()
+  if (!isObject(raw)) {
+    check.fail('', 'link does not contain a project')
+    return { ok: false, errors: check.errors }
+  }
+  const project = checkVersionedProject(raw, check)
+  return project ? { ok: true, project } : { ok: false, errors: check.errors }
+}
+
+export function readProjectFile(text: string): ParseResult {
+  try {
+    return parseProjectFile(JSON.parse(text))
+  } catch (error) {
+    return { ok: false, errors: [{ path: '', message: `not valid JSON (${String(error)})` }] }
+  }
+}
@@ -0,0 +1,112 @@
+import type { Command } from '@/lib/history'
+import type { ProjectData } from '@/lib/projects'
+import type { PatternInput } from '@/lib/tracks'
+
+// The undoable part of a project: its data plus its name
+export interface ProjectDocument extends ProjectData {
+  name: string
+}
+
+type ProjectCommand = Command<ProjectDocument>
+
+// Same keys as `patch`, holding the values they replace
+const previous = <T extends object>(source: T, patch: Partial<T>): Partial<T> =>
+  Object.fromEntries(Object.keys(patch).map((key) => [key, source[key as keyof T]])) as Partial<T>
+
+const withTrack = (doc: ProjectDocument, id: string, patch: Partial<PatternInput>): ProjectDocument => ({
+  ...doc,
+  tracks: doc.tracks.map((track) => (track.id === id ? { ...track, ...patch } : track)),
+})
+
+const describeTrackPatch = (track: PatternInput, patch: Partial<PatternInput>) => {
+  const name = track.name || 'Untitled'
+  if ('pattern' in patch) return `Edit ${name}`
+  if ('name' in patch) return `Rename ${name}`
+  if ('melodic' in patch) return patch.melodic ? `Change ${name} instrument` : `Make ${name} a drum track`
+  if ('transforms' in patch) return `Change ${name} transforms`
+  if ('groove' in patch) return `Change ${name} groove`
+  if ('effects' in patch) return `Change ${name} effects`
+  if ('mode' in patch) return `Switch ${name} to ${patch.mode === 'code' ? 'JavaScript' : 'mini-notation'}`
+  if ('muted' in patch) return `${patch.muted ? 'Mute' : 'Unmute'} ${name}`
+  if ('soloed' in patch) return `${patch.soloed ? 'Solo' : 'Unsolo'} ${name}`
+  return `Change ${Object.keys(patch).join(', ')} of ${name}`
+}
+
+// Change some fields of one track. Text and slider edits coalesce per field.
+export function updateTrack(doc: ProjectDocument, id: string, patch: Partial<PatternInput>): ProjectCommand {
+  const track = doc.tracks.find((t) => t.id === id)
+  if (!track) return { label: 'Nothing', redo: (state) => state, undo: (state) => state }
+  const before = previous(track, patch)
+  return {
+    label: describeTrackPatch(track, patch),
+    coalesceKey: `track:${id}:${Object.keys(patch).sort().join(',')}`,
+    redo: (state) => withTrack(state, id, patch),
+    undo: (state) => withTrack(state, id, before),
+  }
+}
+
+export function addTrack(doc: ProjectDocument, track: PatternInput): ProjectCommand {
+  const nextId = doc.nextId
+  return {
+    label: `Add ${track.name}`,
+    redo: (state) => ({ ...state, tracks: [...state.tracks, track], nextId: nextId + 1 }),
+    undo: (state) => ({ ...state, tracks: state.tracks.filter((t) => t.id !== track.id), nextId }),
+  }
+}
+
+export function removeTrack(doc: ProjectDocument, id: string): ProjectCommand {
+  const index = doc.tracks.findIndex((t) => t.id === id)
+  const track = doc.tracks[index] as PatternInput | undefined
+  return {
+    label: `Delete ${track?.name || 'track'}`,
+    redo: (state) => ({ ...state, tracks: state.tracks.filter((t) => t.id !== id) }),
+    // Put it back where it was
+    undo: (state) =>
+      track
+        ? { ...state, tracks: [...state.tracks.slice(0, index), track, ...state.tracks.slice(index)] }
+        : state,
+  }
+}
+
+const moveTo = (tracks: Array<PatternInput>, id: string, index: number) => {
+  const track = tracks.find((t) => t.id === id)
+  if (!track) return tracks
+  const rest = tracks.filter((t) => t.id !== id)
+  return [...rest.slice(0, index), track, ...rest.slice(index)]
+}
+
+// Move a track up (-1) or down (+1) the list
+export function moveTrack(doc: ProjectDocument, id: string, offset: number): ProjectCommand {
+  const from = doc.tracks.findIndex((t) => t.id === id)
+  const to = Math.max(0, Math.min(doc.tracks.length - 1, from + offset))
+  return {
+    label: `Move ${doc.tracks[from]?.name || 'track'} ${offset < 0 ? 'up' : 'down'}`,
+    redo: (state) => ({ ...state, tracks: moveTo(state.tracks, id, to) }),
+    undo: (state) => ({ ...state, tracks: moveTo(state.tracks, id, from) }),
+  }
+}
+
+// Replace every track at once, e.g. when a scene is launched
+export function replaceTracks(doc: ProjectDocument, tracks: Array<PatternInput>, label: string): ProjectCommand {
+  const before = doc.tracks
+  return {
+    label,
+    redo: (state) => ({ ...state, tracks }),
+    undo: (state) => ({ ...state, tracks: before }),
+  }
+}
+
+// Change project-level fields: name, volume, tempo, scenes, arrangement
+export function updateProject(
+  doc: ProjectDocument,
+  patch: Partial<Omit<ProjectDocument, 'tracks' | 'nextId'>>,
+  label: string,
+): ProjectCommand {
+  const before = previous(doc, patch)
+  return {
+    label,
+    coalesceKey: `project:${Object.keys(patch).sort().join(',')}`,
+    redo: (state) => ({ ...state, ...patch }),
+    undo: (state) => ({ ...state, ...before }),
+  }
+}
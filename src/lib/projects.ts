@@ -0,0 +1,146 @@
+import type { PatternInput } from '@/lib/tracks'
+import type { TempoSettings } from '@/lib/tempo'
+import type { Arrangement, Scene } from '@/lib/scenes'
+import { createTrack } from '@/lib/tracks'
+import { DEFAULT_TEMPO } from '@/lib/tempo'
+import { EMPTY_ARRANGEMENT } from '@/lib/scenes'
+
+// Bump when the stored shape changes and add a matching entry to `migrations`
+export const PROJECT_SCHEMA_VERSION = 2
+
+// Everything that makes up a session
+export interface ProjectData {
+  tracks: Array<PatternInput>
+  nextId: number
+  volume: number
+  tempo: TempoSettings
+  scenes: Array<Scene>
+  arrangement: Arrangement
+}
+
+export interface Project extends ProjectData {
+  version: number
+  id: string
+  name: string
+  updatedAt: number
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'updatedAt'>
+
+const INDEX_KEY = 'beatbakery:projects'
+const LAST_PROJECT_KEY = 'beatbakery:last-project'
+const projectKey = (id: string) => `beatbakery:project:${id}`
+
+export function defaultProjectData(): ProjectData {
+  return {
+    tracks: [
+      createTrack('1', 'Kick & Snare', 'bd sd [~ bd] sd'),
+      createTrack('2', 'Hi-hats', 'hh*8'),
+    ],
+    nextId: 3,
+    volume: 0.7,
+    tempo: DEFAULT_TEMPO,
+    scenes: [],
+    arrangement: EMPTY_ARRANGEMENT,
+  }
+}
+
+// Upgrades from version N to N + 1, keyed by N
+const migrations: Record<number, (project: any) => any> = {
+  // Version 0 is the unversioned format from before the mixer and tempo existed
+  0: (project) => ({
+    volume: 0.7,
+    tempo: DEFAULT_TEMPO,
+    ...project,
+  }),
+  // Version 1 had no scenes or arrangement
+  1: (project) => ({
+    scenes: [],
+    arrangement: EMPTY_ARRANGEMENT,
+    ...project,
+  }),
+}
+
+// Bring a stored project up to the current schema version. Tracks are filled in
+// with defaults for any fields added after they were saved.
+export function migrateProject(raw: any): Project {
+  let project = raw
+  for (let version = raw.version ?? 0; version < PROJECT_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version] as ((project: any) => any) | undefined
+    project = { ...(migrate ? migrate(project) : project), version: version + 1 }
+  }
+  if (!Array.isArray(project.tracks)) return project
+  return {
+    ...project,
+    tracks: project.tracks.map((track: PatternInput | null) =>
+      track && typeof track === 'object'
+        ? { ...createTrack(track.id, track.name), ...track }
+        : track,
+    ),
+  }
+}
+
+const readJson = (key: string) => {
+  try {
+    const value = localStorage.getItem(key)
+    return value ? JSON.parse(value) : null
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error)
+    return null
+  }
+}
+
+export function listProjects(): Array<ProjectSummary> {
+  return (readJson(INDEX_KEY) ?? []) as Array<ProjectSummary>
+}
+
+export function loadProject(id: string): Project | null {
+  const raw = readJson(projectKey(id))
+  return raw ? migrateProject(raw) : null
+}
+
+export function saveProject(project: Project) {
+  const saved: Project = { ...project, version: PROJECT_SCHEMA_VERSION, updatedAt: Date.now() }
+  localStorage.setItem(projectKey(project.id), JSON.stringify(saved))
+
+  const summary: ProjectSummary = { id: saved.id, name: saved.name, updatedAt: saved.updatedAt }
+  const others = listProjects().filter((p) => p.id !== project.id)
+  localStorage.setItem(INDEX_KEY, JSON.stringify([...others, summary]))
+  return saved
+}
+
+export function deleteProject(id: string) {
+  localStorage.removeItem(projectKey(id))
+  localStorage.setItem(INDEX_KEY, JSON.stringify(listProjects().filter((p) => p.id !== id)))
+}
+
+// A new project with a fresh id, not yet written to storage
+export function buildProject(name: string, data: ProjectData = defaultProjectData()): Project {
+  return {
+    ...data,
+    version: PROJECT_SCHEMA_VERSION,
+    id: crypto.randomUUID(),
+    name,
+    updatedAt: Date.now(),
+  }
+}
+
+export function createProject(name: string, data?: ProjectData) {
+  return saveProject(buildProject(name, data))
+}
+
+export const getLastProjectId = () => localStorage.getItem(LAST_PROJECT_KEY)
+
+export const setLastProjectId = (id: string) => localStorage.setItem(LAST_PROJECT_KEY, id)
+
+// The project to open on startup: the last one used, else any, else a fresh one.
+// Nothing is written here; autosave stores a fresh project on its first save.
+export function restoreProject(): Project {
+  const lastId = getLastProjectId()
+  const candidates = [lastId, ...listProjects().map((p) => p.id)]
+  for (const id of candidates) {
+    const project = id ? loadProject(id) : null
+    if (project) return project
+  }
+  return buildProject('My First Beat')
+}
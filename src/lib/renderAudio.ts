@@ -0,0 +1,190 @@
+import { getFreq, getSampleBuffer, getSound } from '@strudel/web'
+import type { WavBitDepth } from '@/lib/wav'
+import { encodeWav } from '@/lib/wav'
+import { SYNTH_WAVEFORMS } from '@/lib/melodic'
+
+export interface RenderOptions {
+  cycles: number
+  cps: number
+  // Extra seconds after the last cycle so reverb and long samples can ring out
+  tailSeconds: number
+  sampleRate?: number
+}
+
+const DEFAULT_SAMPLE_RATE = 44100
+
+// Delay and reverb buses by their settings, shared by every hap in one render
+type SendBuses = Map<string, AudioNode>
+
+// Decaying stereo noise, roughly `seconds` long
+function impulseResponse(ctx: BaseAudioContext, seconds: number) {
+  const length = Math.max(1, Math.round(seconds * ctx.sampleRate))
+  const buffer = ctx.createBuffer(2, length, ctx.sampleRate)
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < length; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3
+  }
+  return buffer
+}
+
+// Soft clipping that gets harder as `amount` grows
+function distortionCurve(amount: number) {
+  const k = amount * 10
+  return Float32Array.from({ length: 1024 }, (_, i) => {
+    const x = (i / 1023) * 2 - 1
+    return ((1 + k) * x) / (1 + k * Math.abs(x))
+  })
+}
+
+// Quantize to `bits` of resolution
+function crushCurve(bits: number) {
+  const levels = 2 ** Math.max(1, bits - 1)
+  return Float32Array.from({ length: 4096 }, (_, i) => Math.round(((i / 4095) * 2 - 1) * levels) / levels)
+}
+
+// Insert effects between a voice and its amp, the way superdough orders them:
+// filters, then distortion and crush. Returns the node the voice should feed.
+function insertEffects(ctx: OfflineAudioContext, value: any, output: AudioNode): AudioNode {
+  let input = output
+  const chain = (node: AudioNode) => {
+    node.connect(input)
+    input = node
+  }
+  // Built back to front, so the last one added is the first one heard
+  if (value.crush) chain(new WaveShaperNode(ctx, { curve: crushCurve(value.crush) }))
+  if (value.distort) chain(new WaveShaperNode(ctx, { curve: distortionCurve(value.distort), oversample: '4x' }))
+  // Haps carry the canonical control names: lpf/lpq arrive as cutoff/resonance
+  if (value.hcutoff) {
+    chain(new BiquadFilterNode(ctx, { type: 'highpass', frequency: value.hcutoff, Q: value.hresonance ?? 1 }))
+  }
+  if (value.cutoff) {
+    chain(new BiquadFilterNode(ctx, { type: 'lowpass', frequency: value.cutoff, Q: value.resonance ?? 1 }))
+  }
+  return input
+}
+
+function delayBus(ctx: OfflineAudioContext, time: number, amount: number) {
+  const delay = new DelayNode(ctx, { delayTime: time, maxDelayTime: 2 })
+  const feedback = new GainNode(ctx, { gain: Math.min(0.95, amount) })
+  delay.connect(ctx.destination)
+  delay.connect(feedback).connect(delay)
+  return delay
+}
+
+function reverbBus(ctx: OfflineAudioContext, size: number) {
+  const reverb = new ConvolverNode(ctx, { buffer: impulseResponse(ctx, size) })
+  reverb.connect(ctx.destination)
+  return reverb
+}
+
+// Delay and reverb are sends off the panned voice into a shared bus
+function addSends(ctx: OfflineAudioContext, value: any, voice: AudioNode, buses: SendBuses) {
+  const send = (key: string, amount: number, create: () => AudioNode) => {
+    if (!buses.has(key)) buses.set(key, create())
+    voice.connect(new GainNode(ctx, { gain: amount })).connect(buses.get(key) as AudioNode)
+  }
+  if (value.delay) {
+    const time = value.delaytime ?? 0.25
+    const feedback = value.delayfeedback ?? 0.5
+    send(`delay:${time}:${feedback}`, value.delay, () => delayBus(ctx, time, feedback))
+  }
+  if (value.room) {
+    const size = value.roomsize ?? 2
+    send(`room:${size}`, value.room, () => reverbBus(ctx, size))
+  }
+}
+
+// Play one hap into the offline graph. Samples come from the banks Strudel has
+// loaded; the basic waveforms are rebuilt with an oscillator and ADSR. Effects
+// are rebuilt from the hap's controls.
+async function scheduleHap(
+  ctx: OfflineAudioContext,
+  hap: any,
+  cps: number,
+  buses: SendBuses,
+  warnings: Set<string>,
+) {
+  const value = hap.value
+  if (typeof value !== 'object') return
+
+  const time = hap.whole.begin.valueOf() / cps
+  const duration = hap.duration.valueOf() / cps
+  const s = value.s ?? 'triangle'
+
+  const amp = new GainNode(ctx, {
+    gain: (value.gain ?? 1) * (value.velocity ?? 1) * (value.postgain ?? 1),
+  })
+  const panner = new StereoPannerNode(ctx, { pan: (value.pan ?? 0.5) * 2 - 1 })
+  amp.connect(panner).connect(ctx.destination)
+  addSends(ctx, value, panner, buses)
+  const voice = insertEffects(ctx, value, amp)
+
+  const sound = getSound(s)
+  if (sound?.data.type === 'sample') {
+    const { buffer, playbackRate } = await getSampleBuffer(value, sound.data.samples)
+    const source = new AudioBufferSourceNode(ctx, { buffer, playbackRate })
+    source.connect(voice)
+    source.start(time, (value.begin ?? 0) * buffer.duration)
+    if (value.clip) source.stop(time + duration)
+  } else if (SYNTH_WAVEFORMS.includes(s)) {
+    const {
+      attack = 0.001,
+      decay = 0.05,
+      sustain = 0.6,
+      release = 0.01,
+    } = value
+    const oscillator = new OscillatorNode(ctx, {
+      type: s,
+      frequency: value.freq ?? getFreq(value.note ?? value.n ?? 36),
+    })
+    const envelope = new GainNode(ctx, { gain: 0 })
+    envelope.gain.setValueAtTime(0, time)
+    envelope.gain.linearRampToValueAtTime(1, time + attack)
+    envelope.gain.linearRampToValueAtTime(sustain, time + attack + decay)
+    envelope.gain.setValueAtTime(sustain, time + duration)
+    envelope.gain.linearRampToValueAtTime(0, time + duration + release)
+    oscillator.connect(envelope).connect(voice)
+    oscillator.start(time)
+    oscillator.stop(time + duration + release)
+  } else {
+    warnings.add(`No sound "${s}" is loaded, its notes were left out`)
+  }
+}
+
+export interface RenderResult<T> {
+  output: T
+  // Problems worth showing the user, each listed once
+  warnings: Array<string>
+}
+
+// Render N cycles of a pattern through an OfflineAudioContext, faster than realtime
+export async function renderPattern(pattern: any, options: RenderOptions): Promise<RenderResult<AudioBuffer>> {
+  const { cycles, cps, tailSeconds, sampleRate = DEFAULT_SAMPLE_RATE } = options
+  const seconds = cycles / cps + tailSeconds
+  const ctx = new OfflineAudioContext({
+    numberOfChannels: 2,
+    length: Math.ceil(seconds * sampleRate),
+    sampleRate,
+  })
+
+  const haps = pattern.queryArc(0, cycles).filter((hap: any) => hap.hasOnset())
+  const buses: SendBuses = new Map()
+  const warnings = new Set<string>()
+  for (const hap of haps) {
+    await scheduleHap(ctx, hap, cps, buses, warnings)
+  }
+  return { output: await ctx.startRendering(), warnings: [...warnings] }
+}
+
+export async function renderWav(
+  pattern: any,
+  options: RenderOptions,
+  bitDepth: WavBitDepth,
+): Promise<RenderResult<Blob>> {
+  const { output: rendered, warnings } = await renderPattern(pattern, options)
+  const channels = Array.from({ length: rendered.numberOfChannels }, (_, i) =>
+    rendered.getChannelData(i),
+  )
+  const output = new Blob([encodeWav(channels, rendered.sampleRate, bitDepth)], { type: 'audio/wav' })
+  return { output, warnings }
+}
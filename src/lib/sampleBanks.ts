@@ -0,0 +1,139 @@
+import { samples, soundMap } from '@strudel/web'
+import type { StoredSample } from '@/lib/sampleStore'
+import { deleteSamples, getSamples, putSamples } from '@/lib/sampleStore'
+
+// Where a bank's sample map comes from: a strudel.json URL (or `github:` shorthand),
+// a pasted samples() map, or audio files kept in IndexedDB
+export type SampleBankSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'json'; map: Record<string, any> }
+  | { kind: 'local' }
+
+export type SampleBank = SampleBankSource & {
+  id: string
+  name: string
+}
+
+export type BankStatus = 'loading' | 'loaded' | 'error'
+
+const BANKS_KEY = 'beatbakery:sample-banks'
+
+export const DEFAULT_BANKS: Array<SampleBank> = [
+  { id: 'dirt-samples', name: 'Dirt Samples', kind: 'url', url: 'github:tidalcycles/dirt-samples' },
+]
+
+export function loadBanks(): Array<SampleBank> {
+  try {
+    const stored = localStorage.getItem(BANKS_KEY)
+    return stored ? (JSON.parse(stored) as Array<SampleBank>) : DEFAULT_BANKS
+  } catch {
+    return DEFAULT_BANKS
+  }
+}
+
+export const saveBanks = (banks: Array<SampleBank>) => localStorage.setItem(BANKS_KEY, JSON.stringify(banks))
+
+export const newBankId = () => `bank-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+// Sound names are used unquoted in mini-notation, so keep them to word characters
+export const soundName = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'sample'
+
+// Object URLs handed out for local banks, revoked when the bank is removed
+const objectUrls = new Map<string, Array<string>>()
+
+// Register a bank's sounds with the sampler. Each sound is tagged with the
+// bank id so the manager can list and remove them later.
+async function registerBank(bank: SampleBank) {
+  if (bank.kind === 'url') {
+    await samples(bank.url, undefined, { tag: bank.id })
+  } else if (bank.kind === 'json') {
+    await samples(bank.map, bank.map._base ?? '', { tag: bank.id })
+  } else {
+    const stored = await getSamples(bank.id)
+    const urls = stored.map((sample) => URL.createObjectURL(sample.blob))
+    objectUrls.set(bank.id, urls)
+    const map: Record<string, Array<string>> = {}
+    stored.forEach((sample, index) => {
+      map[sample.sound] = [...(map[sample.sound] ?? []), urls[index]]
+    })
+    await samples(map, '', { tag: bank.id })
+  }
+}
+
+// Sound names registered by a bank, with how many variants each has
+export function bankSounds(bankId: string): Array<{ name: string; variants: number }> {
+  return Object.entries(soundMap.get())
+    .filter(([, sound]) => sound.data.tag === bankId)
+    .map(([name, sound]) => ({
+      name,
+      variants: Array.isArray(sound.data.samples) ? sound.data.samples.length : Object.keys(sound.data.samples ?? {}).length,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function unregisterBank(bank: SampleBank) {
+  bankSounds(bank.id).forEach(({ name }) => soundMap.setKey(name, undefined))
+  objectUrls.get(bank.id)?.forEach((url) => URL.revokeObjectURL(url))
+  objectUrls.delete(bank.id)
+  statuses.delete(bank.id)
+  if (bank.kind === 'local') await deleteSamples(bank.id)
+}
+
+// Store dropped files under a new local bank. Returns the bank, not yet registered.
+export async function createLocalBank(name: string, files: Array<Omit<StoredSample, 'bankId'>>): Promise<SampleBank> {
+  const bank: SampleBank = { id: newBankId(), name, kind: 'local' }
+  await putSamples(files.map((file) => ({ ...file, bankId: bank.id })))
+  return bank
+}
+
+// Load state of every bank seen this session, read by the bank manager
+const statuses = new Map<string, BankStatus>()
+
+export const bankStatus = (bankId: string) => statuses.get(bankId)
+
+// Register a bank and record how it went. Errors are logged, not thrown.
+export async function loadBank(bank: SampleBank): Promise<BankStatus> {
+  statuses.set(bank.id, 'loading')
+  let status: BankStatus = 'loaded'
+  try {
+    await registerBank(bank)
+  } catch (error) {
+    console.error(`Error loading sample bank ${bank.name}:`, error)
+    status = 'error'
+  }
+  statuses.set(bank.id, status)
+  return status
+}
+
+// Prebake hook: load every saved bank, one failure (e.g. offline) doesn't stop the rest
+export const loadSavedBanks = () => Promise.all(loadBanks().map(loadBank))
+
+const AUDIO_EXTENSION = /\.(wav|mp3|ogg|flac|aiff?|m4a|webm)$/i
+
+// A file picked or dropped by the user, with its folder path relative to the drop
+export interface DroppedFile {
+  file: File
+  // e.g. `drums/kick/01.wav`; just the file name for loose files
+  path: string
+}
+
+// Turn dropped files into stored samples. Files inside a folder play under the
+// folder's name (like Dirt-Samples), loose files under their own name.
+export function droppedToSamples(dropped: Array<DroppedFile>): Array<Omit<StoredSample, 'bankId'>> {
+  return dropped
+    .filter(({ file }) => file.type.startsWith('audio/') || AUDIO_EXTENSION.test(file.name))
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+    .map(({ file, path }) => {
+      const parts = path.split('/')
+      return {
+        sound: soundName(parts.length > 1 ? parts[parts.length - 2] : file.name),
+        fileName: file.name,
+        blob: file,
+      }
+    })
+}
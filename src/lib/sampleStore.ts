@@ -0,0 +1,73 @@
+// IndexedDB storage for audio files dropped into the app, so local banks
+// survive reloads and work offline
+
+const DB_NAME = 'beatbakery'
+const DB_VERSION = 1
+const STORE = 'samples'
+
+export interface StoredSample {
+  bankId: string
+  // Sound name the file plays under, e.g. `kick` for `s("kick:2")`
+  sound: string
+  fileName: string
+  blob: Blob
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { autoIncrement: true })
+        store.createIndex('bankId', 'bankId')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+// Run one request in its own transaction and resolve when the transaction commits
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void) {
+  const db = await openDb()
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode)
+    const request = action(transaction.objectStore(STORE))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function putSamples(samples: Array<StoredSample>) {
+  const db = await openDb()
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite')
+    const store = transaction.objectStore(STORE)
+    samples.forEach((sample) => store.add(sample))
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function getSamples(bankId: string): Promise<Array<StoredSample>> {
+  const result = await run('readonly', (store) => store.index('bankId').getAll(bankId))
+  return (result ?? []) as Array<StoredSample>
+}
+
+export async function deleteSamples(bankId: string) {
+  await run('readwrite', (store) => {
+    const request = store.index('bankId').openKeyCursor(IDBKeyRange.only(bankId))
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor) {
+        store.delete(cursor.primaryKey)
+        cursor.continue()
+      }
+    }
+  })
+}
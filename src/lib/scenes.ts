@@ -0,0 +1,97 @@
+import { Pattern } from '@strudel/web'
+import type { PatternInput } from '@/lib/tracks'
+import { isAudible } from '@/lib/tracks'
+
+// Mixer settings a scene stores for each track it plays
+export interface SceneTrack {
+  gain: number
+  pan: number
+}
+
+// Snapshot of which tracks play and how. Tracks missing from `tracks` are muted.
+export interface Scene {
+  id: string
+  name: string
+  tracks: Record<string, SceneTrack>
+}
+
+export interface ArrangementEntry {
+  sceneId: string
+  cycles: number
+}
+
+export interface Arrangement {
+  entries: Array<ArrangementEntry>
+  // Entry indices, both inclusive. After the end entry the song jumps back to
+  // the start entry forever; null plays the song once and then goes silent.
+  loop: { start: number; end: number } | null
+}
+
+export const EMPTY_ARRANGEMENT: Arrangement = { entries: [], loop: null }
+
+export const newSceneId = () => `scene-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+// Capture what's audible right now as a scene
+export function captureScene(id: string, name: string, tracks: Array<PatternInput>): Scene {
+  const sceneTracks: Record<string, SceneTrack> = {}
+  tracks
+    .filter((track) => isAudible(track, tracks))
+    .forEach((track) => {
+      sceneTracks[track.id] = { gain: track.gain, pan: track.pan }
+    })
+  return { id, name, tracks: sceneTracks }
+}
+
+// The tracks as the scene wants them. Solo is cleared so the scene's mutes decide.
+export const applyScene = (scene: Scene, tracks: Array<PatternInput>): Array<PatternInput> =>
+  tracks.map((track) => {
+    const settings = scene.tracks[track.id] as SceneTrack | undefined
+    return settings
+      ? { ...track, ...settings, muted: false, soloed: false }
+      : { ...track, muted: true, soloed: false }
+  })
+
+// First cycle of each entry, plus the total length at the end
+function entryStarts(arrangement: Arrangement) {
+  const starts = [0]
+  arrangement.entries.forEach((entry) => starts.push(starts[starts.length - 1] + entry.cycles))
+  return starts
+}
+
+// Which entry plays at a whole cycle number, or null once a non-looping song is over
+export function entryAt(arrangement: Arrangement, cycle: number): number | null {
+  const starts = entryStarts(arrangement)
+  const total = starts[starts.length - 1]
+  let position = cycle
+  const { loop } = arrangement
+  if (loop && position >= starts[loop.end + 1]) {
+    const loopStart = starts[loop.start]
+    const loopLength = starts[loop.end + 1] - loopStart
+    position = loopStart + ((position - loopStart) % loopLength)
+  }
+  if (position < 0 || position >= total) return null
+  return starts.findIndex((start, index) => position >= start && position < starts[index + 1])
+}
+
+export const validLoop = (arrangement: Arrangement) => {
+  const { loop, entries } = arrangement
+  return loop !== null && loop.start <= loop.end && loop.end < entries.length
+}
+
+// One pattern for the whole song. Each cycle is taken from the scene scheduled
+// for it; `compileScene` builds (and may cache) each scene's stack.
+export function buildArrangement(arrangement: Arrangement, compileScene: (sceneId: string) => any) {
+  const safe = validLoop(arrangement) ? arrangement : { ...arrangement, loop: null }
+  const patterns = new Map<string, any>()
+  const sceneAt = (cycle: number) => {
+    const index = entryAt(safe, cycle)
+    if (index === null) return null
+    const { sceneId } = safe.entries[index]
+    if (!patterns.has(sceneId)) patterns.set(sceneId, compileScene(sceneId))
+    return patterns.get(sceneId)
+  }
+  return new Pattern((state: any) => {
+    const pattern = sceneAt(state.span.begin.sam().valueOf())
+    return pattern ? pattern.query(state) : []
+  }).splitQueries()
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { PROJECT_SCHEMA_VERSION, buildProject } from '@/lib/projects'
+import { decodeSession, encodeSession } from '@/lib/share'
+
+// Deflate and base64url a payload the way encodeSession does, without its typing
+async function encodeRaw(payload: unknown) {
+  const stream = (new Response(JSON.stringify(payload)).body as ReadableStream).pipeThrough(
+    new CompressionStream('deflate-raw'),
+  )
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+describe('decodeSession', () => {
+  const { name, tracks, volume, tempo, scenes, arrangement } = buildProject('Shared beat')
+  const session = { name, tracks, volume, tempo, scenes, arrangement }
+
+  it('reads back what encodeSession wrote', async () => {
+    expect(await decodeSession(await encodeSession(session))).toEqual(session)
+  })
+
+  it.each([
+    ['tracks that are not a list', { tracks: 'x' }],
+    ['a missing name', { name: undefined }],
+    ['a track gain given as text', { tracks: tracks.map((track) => ({ ...track, gain: '1' })) }],
+    ['a bad tempo', { tempo: { cps: 'fast' } }],
+  ])('rejects %s', async (_, change) => {
+    const encoded = await encodeRaw({ ...session, ...change, version: PROJECT_SCHEMA_VERSION })
+    await expect(decodeSession(encoded)).rejects.toThrow(/^Invalid shared project/)
+  })
+
+  it('rejects a payload that is not a project', async () => {
+    await expect(decodeSession(await encodeRaw([1, 2, 3]))).rejects.toThrow(/^Invalid shared project/)
+  })
+})
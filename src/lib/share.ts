@@ -0,0 +1,63 @@
+import type { PatternInput } from '@/lib/tracks'
+import type { ProjectData } from '@/lib/projects'
+import { PROJECT_SCHEMA_VERSION } from '@/lib/projects'
+import { parseSharedProject } from '@/lib/projectFile'
+
+// Search param on `/` that carries a shared session
+export const SHARE_PARAM = 'share'
+
+// What goes into a share link: the tracks, scenes and global settings, not the local project id
+export interface SharedSession extends Omit<ProjectData, 'nextId'> {
+  name: string
+}
+
+// base64url alphabet only, so the param survives chat apps and URL parsers untouched
+export const isShareParam = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9_-]+$/.test(value)
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response((new Response(bytes).body as ReadableStream).pipeThrough(stream)).arrayBuffer())
+
+// JSON -> deflate -> base64url
+export async function encodeSession(session: SharedSession) {
+  const json = JSON.stringify({ ...session, version: PROJECT_SCHEMA_VERSION })
+  const compressed = await pipe(new TextEncoder().encode(json), new CompressionStream('deflate-raw'))
+  return toBase64Url(compressed)
+}
+
+// Reverse of encodeSession. Throws if the param is corrupt or doesn't hold a valid project.
+export async function decodeSession(encoded: string): Promise<SharedSession> {
+  const json = new TextDecoder().decode(
+    await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw')),
+  )
+  // Links may come from older versions of the app, or be hand-edited
+  const result = parseSharedProject(JSON.parse(json))
+  if (!result.ok) {
+    const problems = result.errors.map(({ path, message }) => (path ? `${path}: ${message}` : message))
+    throw new Error(`Invalid shared project (${problems.join('; ')})`)
+  }
+  const { name, tracks, volume, tempo, scenes, arrangement } = result.project
+  return { name, tracks, volume, tempo, scenes, arrangement }
+}
+
+// Next free numeric track id for a set of tracks that came from elsewhere
+export const nextTrackId = (tracks: Array<PatternInput>) =>
+  tracks.reduce((max, track) => Math.max(max, parseInt(track.id) || 0), 0) + 1
+
+export function shareUrl(encoded: string) {
+  const url = new URL(window.location.href)
+  url.search = new URLSearchParams({ [SHARE_PARAM]: encoded }).toString()
+  url.hash = ''
+  return url.toString()
+}
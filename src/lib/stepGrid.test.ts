@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { gridToMini, miniToGrid } from '@/lib/stepGrid'
+
+describe('miniToGrid', () => {
+  it('reads flat layers into one row per sound', () => {
+    expect(miniToGrid('bd ~ sd:2 ~, hh*4')).toEqual({
+      ok: true,
+      grid: {
+        steps: 4,
+        rows: [
+          { sound: 'bd', cells: [1, 0, 0, 0] },
+          { sound: 'sd:2', cells: [0, 0, 1, 0] },
+          { sound: 'hh', cells: [1, 1, 1, 1] },
+        ],
+      },
+    })
+  })
+
+  it('spreads one level of groups over finer steps', () => {
+    expect(miniToGrid('bd sd [~ bd] sd')).toEqual({
+      ok: true,
+      grid: {
+        steps: 8,
+        rows: [
+          { sound: 'bd', cells: [1, 0, 0, 0, 0, 1, 0, 0] },
+          { sound: 'sd', cells: [0, 0, 1, 0, 0, 0, 1, 0] },
+        ],
+      },
+    })
+  })
+
+  it('splits every step finely enough for all of its groups', () => {
+    const parsed = miniToGrid('[bd bd] [hh hh hh]')
+    expect(parsed.ok && parsed.grid.steps).toBe(12)
+    expect(parsed.ok && parsed.grid.rows.map((row) => row.cells.join(''))).toEqual(['100100000000', '000000101010'])
+  })
+
+  it('writes groups back out as flat steps', () => {
+    const parsed = miniToGrid('bd [~ sd]')
+    expect(parsed.ok && gridToMini(parsed.grid)).toBe('bd ~ ~ ~, ~ ~ ~ sd')
+  })
+
+  it('gives a reason for nested groups and other syntax', () => {
+    expect(miniToGrid('bd [sd [hh hh]]')).toEqual({ ok: false, reason: 'groups inside groups are too deep' })
+    expect(miniToGrid('bd <sd cp>')).toMatchObject({ ok: false })
+    expect(miniToGrid('bd sd, hh hh hh')).toEqual({ ok: false, reason: 'layers have different numbers of steps' })
+  })
+})
@@ -0,0 +1,125 @@
+// Step-sequencer view of simple mini-notation: one row per sound, a fixed
+// number of steps per cycle. Rows become comma-separated layers.
+
+export interface GridRow {
+  // Sound with optional variant, e.g. `bd` or `bd:3`
+  sound: string
+  // 0 is off, anything else is the step's gain (up to 1)
+  cells: Array<number>
+}
+
+export interface StepGrid {
+  steps: number
+  rows: Array<GridRow>
+}
+
+export type GridParseResult = { ok: true; grid: StepGrid } | { ok: false; reason: string }
+
+export const GRID_STEP_OPTIONS = [4, 8, 12, 16, 32]
+export const DEFAULT_GRID_STEPS = 16
+
+// Velocities the cells cycle through, loudest first
+export const VELOCITY_LEVELS = [1, 0.75, 0.5, 0.25]
+
+const STEP = /^([a-z0-9_]+)(?::(\d+)(?::(\d*\.?\d+))?)?$/i
+const REPEAT = /^(.+)\*(\d+)$/
+// A top-level step or a `[...]` group without groups inside it
+const ELEMENT = /\[([^[\]]*)\]|[^\s[\]]+/g
+// More steps than this don't fit a row of cells
+const MAX_GRID_STEPS = 64
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+function cellToken(sound: string, velocity: number) {
+  if (velocity >= 1) return sound
+  // The third `:` field of a sound is its gain, so the variant has to be spelled out
+  const withVariant = sound.includes(':') ? sound : `${sound}:0`
+  return `${withVariant}:${round2(velocity)}`
+}
+
+// Mini-notation for a grid. Empty rows are left out so they don't play as silence.
+export function gridToMini(grid: StepGrid): string {
+  return grid.rows
+    .filter((row) => row.sound && row.cells.some((cell) => cell > 0))
+    .map((row) => row.cells.map((cell) => (cell > 0 ? cellToken(row.sound, cell) : '~')).join(' '))
+    .join(', ')
+}
+
+export const emptyGrid = (steps = DEFAULT_GRID_STEPS): StepGrid => ({ steps, rows: [] })
+
+// Spread a layer's steps over grid cells. Each `[...]` group shares its step
+// evenly, so the layer gets as many cells per step as its groups need, e.g.
+// `bd [~ bd]` becomes `bd ~ ~ bd`. Gives a reason for anything it can't spread.
+function layerSteps(layer: string): Array<string> | string {
+  if (layer.replace(ELEMENT, '').trim()) return 'groups inside groups are too deep'
+  const elements = [...layer.matchAll(ELEMENT)].map(([token, group]) =>
+    token.startsWith('[') ? group.trim().split(/\s+/) : [token],
+  )
+  if (elements.some((element) => !element[0])) return 'a group is empty'
+  const cellsPerStep = elements.reduce((cells, element) => (cells * element.length) / gcd(cells, element.length), 1)
+  if (elements.length * cellsPerStep > MAX_GRID_STEPS) return 'its groups split the cycle too finely'
+
+  const steps = Array<string>(elements.length * cellsPerStep).fill('~')
+  elements.forEach((element, index) =>
+    element.forEach((token, sub) => {
+      steps[index * cellsPerStep + (sub * cellsPerStep) / element.length] = token
+    }),
+  )
+  return steps
+}
+
+// Read a pattern back into a grid. Layers of plain steps and one level of
+// `[...]` groups, all the same length once spread out, are understood;
+// anything else gets a reason instead.
+export function miniToGrid(text: string): GridParseResult {
+  const trimmed = text.trim()
+  if (!trimmed) return { ok: true, grid: emptyGrid() }
+
+  const rows: Array<GridRow> = []
+  let steps: number | null = null
+  for (const layer of trimmed.split(',')) {
+    const trimmedLayer = layer.trim()
+    // `hh*8` on its own is eight steps of hh
+    const repeat = /\s/.test(trimmedLayer) ? null : REPEAT.exec(trimmedLayer)
+    const tokens = repeat ? Array<string>(Number(repeat[2])).fill(repeat[1]) : layerSteps(trimmedLayer)
+    if (typeof tokens === 'string') return { ok: false, reason: tokens }
+
+    if (steps !== null && tokens.length !== steps) {
+      return { ok: false, reason: 'layers have different numbers of steps' }
+    }
+    steps = tokens.length
+
+    // A layer with several sounds splits into one row per sound
+    const layerRows = new Map<string, Array<number>>()
+    for (const [step, token] of tokens.entries()) {
+      if (token === '~') continue
+      const match = STEP.exec(token)
+      if (!match) return { ok: false, reason: `"${token}" uses syntax the grid can't show` }
+      const [, name, variant, velocity] = match
+      // `bd:0` and `bd` sound the same, keep the short form
+      const sound = variant && variant !== '0' ? `${name}:${variant}` : name
+      const cells = layerRows.get(sound) ?? Array<number>(tokens.length).fill(0)
+      cells[step] = velocity ? Math.min(1, Math.max(0.01, Number(velocity))) : 1
+      layerRows.set(sound, cells)
+    }
+    if (layerRows.size === 0) return { ok: false, reason: 'a layer has only rests' }
+    layerRows.forEach((cells, sound) => rows.push({ sound, cells }))
+  }
+  return { ok: true, grid: { steps: steps ?? DEFAULT_GRID_STEPS, rows } }
+}
+
+// Change the number of steps, keeping hits that land on the new step positions
+export function resizeGrid(grid: StepGrid, steps: number): StepGrid {
+  return {
+    steps,
+    rows: grid.rows.map((row) => ({
+      ...row,
+      cells: Array.from({ length: steps }, (_, index) => {
+        const source = (index * grid.steps) / steps
+        return Number.isInteger(source) ? row.cells[source] : 0
+      }),
+    })),
+  }
+}
@@ -0,0 +1,80 @@
+import { Pattern, getAudioContext, initStrudel, superdough } from '@strudel/web'
+import { loadSavedBanks } from '@/lib/sampleBanks'
+
+// Initialize Strudel once for the whole app. Resolves to the repl that owns the scheduler
+// once the saved sample banks have loaded (or failed to).
+export const strudelReady = initStrudel({
+  prebake: loadSavedBanks,
+})
+
+// Resolved repl for synchronous reads from animation frames
+let activeRepl: any = null
+strudelReady.then((repl) => {
+  activeRepl = repl
+})
+
+// The scheduler's current position in cycles, 0 while stopped
+export const currentCycle = (): number => activeRepl?.scheduler.now() ?? 0
+
+// The splice currently handed to the scheduler, if the last swap went through swapPattern
+let live: { spliced: any; before: any; after: any; boundary: number } | null = null
+
+// Replace the running pattern at the next cycle boundary without stopping the scheduler.
+// Starts playback if the scheduler is idle.
+export async function swapPattern(next: any) {
+  const repl = await strudelReady
+  const { scheduler } = repl
+
+  if (!scheduler.started || !scheduler.pattern) {
+    live = null
+    await repl.setPattern(next, true)
+    return
+  }
+
+  const now = scheduler.now()
+  const boundary = Math.floor(now) + 1
+  // Unwrap our own previous splice so repeated edits don't nest patterns forever
+  let before = scheduler.pattern
+  if (live && before === live.spliced) {
+    before = now < live.boundary ? live.before : live.after
+  }
+
+  const spliced = new Pattern((state: any) =>
+    (state.span.begin.lt(boundary) ? before : next).query(state),
+  ).splitQueries()
+  live = { spliced, before, after: next, boundary }
+  await repl.setPattern(spliced, true)
+}
+
+// Tempo changes are ramped over this long so they don't jump audibly
+const TEMPO_GLIDE_MS = 400
+const TEMPO_GLIDE_STEPS = 8
+let glideTimer: ReturnType<typeof setInterval> | undefined
+
+// Set the scheduler's cycles per second. While playing the change is glided;
+// the scheduler keeps its phase across each step, so nothing skips.
+export async function setTempo(cps: number, glide = true) {
+  const repl = await strudelReady
+  const { scheduler } = repl
+  clearInterval(glideTimer)
+
+  if (!glide || !scheduler.started) {
+    repl.setCps(cps)
+    return
+  }
+
+  const from = scheduler.cps
+  let step = 0
+  glideTimer = setInterval(() => {
+    step++
+    repl.setCps(from + ((cps - from) * step) / TEMPO_GLIDE_STEPS)
+    if (step >= TEMPO_GLIDE_STEPS) clearInterval(glideTimer)
+  }, TEMPO_GLIDE_MS / TEMPO_GLIDE_STEPS)
+}
+
+// Play a single sound right away, outside any pattern. Used to preview samples.
+export async function auditionSound(s: string, n = 0) {
+  await strudelReady
+  const context = getAudioContext()
+  await superdough({ s, n }, context.currentTime + 0.01, 1)
+}
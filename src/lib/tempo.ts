@@ -0,0 +1,33 @@
+export interface TempoSettings {
+  // Cycles per second, what the Strudel scheduler actually runs on
+  cps: number
+  // How many beats make up one cycle, used to map BPM to CPS
+  beatsPerCycle: number
+}
+
+export const DEFAULT_TEMPO: TempoSettings = { cps: 0.5, beatsPerCycle: 4 }
+
+export const MIN_BPM = 40
+export const MAX_BPM = 240
+
+export const cpsToBpm = (cps: number, beatsPerCycle: number) => cps * 60 * beatsPerCycle
+
+export const bpmToCps = (bpm: number, beatsPerCycle: number) => bpm / 60 / beatsPerCycle
+
+export const clampBpm = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, bpm))
+
+// Taps further apart than this start a new measurement
+const TAP_RESET_MS = 2000
+const MAX_TAPS = 8
+
+// Record a tap at `now` (ms) and return the updated tap history plus the BPM
+// it implies, or null until there are at least two taps.
+export function tapTempo(taps: Array<number>, now: number) {
+  const next =
+    taps.length > 0 && now - taps[taps.length - 1] < TAP_RESET_MS ? [...taps, now] : [now]
+  const recent = next.slice(-MAX_TAPS)
+  if (recent.length < 2) return { taps: recent, bpm: null }
+
+  const interval = (recent[recent.length - 1] - recent[0]) / (recent.length - 1)
+  return { taps: recent, bpm: clampBpm(60000 / interval) }
+}
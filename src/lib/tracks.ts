@@ -0,0 +1,170 @@
+import { Pattern, gain, s, stack } from '@strudel/web'
+import type { MidiRouting } from '@/lib/midi'
+import type { MelodicSettings } from '@/lib/melodic'
+import type { TrackEffects } from '@/lib/effects'
+import type { GrooveSettings } from '@/lib/groove'
+import type { Transform } from '@/lib/transforms'
+import { midiTrigger } from '@/lib/midi'
+import { validateMini } from '@/lib/miniValidation'
+import { evaluateCode, rejectCode } from '@/lib/codeEval'
+import { melodicSource } from '@/lib/melodic'
+import { applyEffects } from '@/lib/effects'
+import { DEFAULT_GROOVE, applyGroove } from '@/lib/groove'
+import { applyTransforms } from '@/lib/transforms'
+
+// 'mini' plays the text as sample mini-notation, 'code' evaluates it as a
+// Strudel JavaScript expression
+export type TrackMode = 'mini' | 'code'
+
+export interface PatternInput {
+  id: string
+  pattern: string
+  // Toolbar transforms, composed onto the parsed pattern in order
+  transforms: Array<Transform>
+  mode: TrackMode
+  name: string
+  gain: number
+  // Stereo position in Strudel's 0 (left) .. 1 (right) range
+  pan: number
+  muted: boolean
+  soloed: boolean
+  // Pitched notes instead of drum samples; null for a drum track
+  melodic: MelodicSettings | null
+  effects: TrackEffects
+  // Swing and humanize, applied on top of the compiled pattern
+  groove: GrooveSettings
+  // Send to a Web MIDI output instead of the built-in sampler
+  midi: MidiRouting | null
+}
+
+export interface CompiledStack {
+  pattern: any
+  // Track id -> compiled pattern for every track that made it into the stack
+  layers: Record<string, any>
+  // Track id -> error message for every track that failed to compile
+  errors: Record<string, string>
+}
+
+export function createTrack(id: string, name: string, pattern = ''): PatternInput {
+  return {
+    id,
+    name,
+    pattern,
+    transforms: [],
+    mode: 'mini',
+    gain: 1,
+    pan: 0.5,
+    muted: false,
+    soloed: false,
+    melodic: null,
+    effects: {},
+    groove: DEFAULT_GROOVE,
+    midi: null,
+  }
+}
+
+// Mute and solo decide which tracks reach the stack at all
+export function isAudible(track: PatternInput, tracks: Array<PatternInput>) {
+  if (track.muted) return false
+  return tracks.some((t) => t.soloed) ? track.soloed : true
+}
+
+function parseSource(track: PatternInput) {
+  if (track.mode === 'code') return evaluateCode(track.pattern)
+  // Same message the card shows, rather than the parser's raw one
+  const issue = validateMini(track.pattern)
+  if (issue) throw new Error(issue.message)
+  return track.melodic ? melodicSource(track.pattern, track.melodic) : s(track.pattern)
+}
+
+// Parse the track's pattern text, then add its transforms and effects. Throws on bad syntax.
+export function compileSource(track: PatternInput) {
+  return applyEffects(applyTransforms(parseSource(track), track.transforms), track.effects)
+}
+
+// Apply the track's groove and mixer settings on top of its parsed source
+export function applyTrackSettings(source: any, track: PatternInput) {
+  // Multiplied in, so per-step gain (e.g. `bd:0:0.5` from the step grid) survives
+  const mixed = applyGroove(source, track.groove).mul(gain(track.gain)).pan(track.pan)
+  // onTrigger is dominant, so MIDI-routed tracks stay silent in the sampler
+  return track.midi ? mixed.onTrigger(midiTrigger(track.midi)) : mixed
+}
+
+// Compile a single track into its own Strudel pattern. Throws on bad syntax.
+export function compileTrack(track: PatternInput) {
+  return applyTrackSettings(compileSource(track), track)
+}
+
+interface QueryGuard {
+  code: string
+  source: any
+  fallback: any
+  failed: boolean
+}
+
+// What each guarded pattern wraps, so a recompile can pick its fallback
+const guards = new WeakMap<any, QueryGuard>()
+
+// Evaluated code can still throw when the scheduler queries a cycle the dry run
+// never reached. The first such error rejects the code, which shows it on the
+// card, and from then on the track plays `previous`'s last good pattern instead.
+function guardQueries(code: string, source: any, previous: any) {
+  const before = guards.get(previous)
+  // Fall back to plain patterns only, so guards never chain
+  const fallback = before && (before.failed || before.code === code) ? before.fallback : (before?.source ?? previous)
+  const guard: QueryGuard = { code, source, fallback, failed: false }
+  const guarded = new Pattern((state: any) => {
+    if (!guard.failed) {
+      try {
+        return guard.source.query(state)
+      } catch (error) {
+        console.error('Error playing code, falling back to its last good pattern:', error)
+        guard.failed = true
+        rejectCode(code, error)
+      }
+    }
+    try {
+      return guard.fallback?.query(state) ?? []
+    } catch {
+      return []
+    }
+  })
+  guards.set(guarded, guard)
+  return guarded
+}
+
+// Compile every non-empty track on its own and layer the survivors with stack(),
+// so one broken track doesn't take the others down with it. When `lastGood` is
+// given, a track that fails to parse (or, for code, to play) falls back to its
+// last parsed source.
+export function buildStack(
+  tracks: Array<PatternInput>,
+  lastGood?: Map<string, any>,
+): CompiledStack {
+  const errors: Record<string, string> = {}
+  const layers: Record<string, any> = {}
+
+  tracks
+    .filter((track) => track.pattern.trim() && isAudible(track, tracks))
+    .forEach((track) => {
+      let source
+      try {
+        source = compileSource(track)
+        if (track.mode === 'code') source = guardQueries(track.pattern, source, lastGood?.get(track.id))
+        lastGood?.set(track.id, source)
+      } catch (error) {
+        errors[track.id] = error instanceof Error ? error.message : String(error)
+        source = lastGood?.get(track.id)
+        if (!source) return
+      }
+      layers[track.id] = applyTrackSettings(source, track)
+    })
+
+  const compiled = Object.values(layers)
+  if (compiled.length === 0) return { pattern: null, layers, errors }
+  return {
+    pattern: compiled.length === 1 ? compiled[0] : stack(...compiled),
+    layers,
+    errors,
+  }
+}
@@ -0,0 +1,94 @@
+// Pattern transforms picked from the card toolbar, applied in list order
+
+// Transforms that can also run on their own every N cycles
+export type SimpleTransform =
+  | { kind: 'fast'; factor: number }
+  | { kind: 'slow'; factor: number }
+  | { kind: 'rev' }
+  | { kind: 'degradeBy'; amount: number }
+  | { kind: 'ply'; times: number }
+  | { kind: 'iter'; divisions: number }
+  | { kind: 'euclidRot'; pulses: number; steps: number; rotation: number }
+
+export type Transform = SimpleTransform | { kind: 'every'; cycles: number; transform: SimpleTransform }
+
+export type TransformKind = Transform['kind']
+
+// Numeric fields each kind has, with the range the toolbar and project files allow
+export const TRANSFORM_PARAMS: Record<TransformKind, Array<{ key: string; label: string; min: number; max: number; step: number }>> = {
+  fast: [{ key: 'factor', label: '×', min: 1, max: 16, step: 1 }],
+  slow: [{ key: 'factor', label: '÷', min: 1, max: 16, step: 1 }],
+  rev: [],
+  degradeBy: [{ key: 'amount', label: 'drop', min: 0, max: 1, step: 0.05 }],
+  ply: [{ key: 'times', label: '×', min: 1, max: 8, step: 1 }],
+  iter: [{ key: 'divisions', label: 'parts', min: 1, max: 16, step: 1 }],
+  euclidRot: [
+    { key: 'pulses', label: 'hits', min: 0, max: 32, step: 1 },
+    { key: 'steps', label: 'of', min: 1, max: 32, step: 1 },
+    { key: 'rotation', label: 'rot', min: 0, max: 31, step: 1 },
+  ],
+  every: [{ key: 'cycles', label: 'cycles', min: 2, max: 16, step: 1 }],
+}
+
+export const TRANSFORM_LABELS: Record<TransformKind, string> = {
+  fast: 'Fast',
+  slow: 'Slow',
+  rev: 'Reverse',
+  degradeBy: 'Degrade',
+  ply: 'Ply',
+  iter: 'Iter',
+  euclidRot: 'Euclid',
+  every: 'Every',
+}
+
+export const SIMPLE_KINDS: Array<SimpleTransform['kind']> = ['fast', 'slow', 'rev', 'degradeBy', 'ply', 'iter', 'euclidRot']
+
+// What a toolbar button adds
+export function defaultTransform(kind: TransformKind): Transform {
+  switch (kind) {
+    case 'fast':
+    case 'slow':
+      return { kind, factor: 2 }
+    case 'rev':
+      return { kind }
+    case 'degradeBy':
+      return { kind, amount: 0.5 }
+    case 'ply':
+      return { kind, times: 2 }
+    case 'iter':
+      return { kind, divisions: 4 }
+    case 'euclidRot':
+      return { kind, pulses: 3, steps: 8, rotation: 0 }
+    case 'every':
+      return { kind, cycles: 4, transform: { kind: 'rev' } }
+  }
+}
+
+function applySimple(pattern: any, transform: SimpleTransform) {
+  switch (transform.kind) {
+    case 'fast':
+      return pattern.fast(transform.factor)
+    case 'slow':
+      return pattern.slow(transform.factor)
+    case 'rev':
+      return pattern.rev()
+    case 'degradeBy':
+      return pattern.degradeBy(transform.amount)
+    case 'ply':
+      return pattern.ply(transform.times)
+    case 'iter':
+      return pattern.iter(transform.divisions)
+    case 'euclidRot':
+      return pattern.euclidRot(transform.pulses, transform.steps, transform.rotation)
+  }
+}
+
+// Compose the transforms onto a pattern, first in the list first
+export const applyTransforms = (source: any, transforms: Array<Transform>) =>
+  transforms.reduce(
+    (pattern, transform) =>
+      transform.kind === 'every'
+        ? pattern.firstOf(transform.cycles, (p: any) => applySimple(p, transform.transform))
+        : applySimple(pattern, transform),
+    source,
+  )
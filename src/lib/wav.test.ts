@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { encodeWav } from '@/lib/wav'
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.slice(start, start + length))
+
+describe('encodeWav', () => {
+  it('writes the RIFF, fmt and data headers', () => {
+    const left = new Float32Array([0, 0.5, -0.5])
+    const right = new Float32Array([0, 0, 0])
+    const buffer = encodeWav([left, right], 44100, 24)
+    const bytes = new Uint8Array(buffer)
+    const view = new DataView(buffer)
+    const dataSize = 3 * 2 * 3
+
+    expect(buffer.byteLength).toBe(44 + dataSize)
+    expect(ascii(bytes, 0, 4)).toBe('RIFF')
+    expect(view.getUint32(4, true)).toBe(36 + dataSize)
+    expect(ascii(bytes, 8, 4)).toBe('WAVE')
+    expect(ascii(bytes, 12, 4)).toBe('fmt ')
+    expect(view.getUint32(16, true)).toBe(16)
+    expect(view.getUint16(20, true)).toBe(1)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(44100)
+    expect(view.getUint32(28, true)).toBe(44100 * 6)
+    expect(view.getUint16(32, true)).toBe(6)
+    expect(view.getUint16(34, true)).toBe(24)
+    expect(ascii(bytes, 36, 4)).toBe('data')
+    expect(view.getUint32(40, true)).toBe(dataSize)
+  })
+
+  it('clips 16-bit samples to the signed range', () => {
+    const view = new DataView(encodeWav([new Float32Array([0, 1, -1, 2, -2])], 48000, 16))
+    const samples = Array.from({ length: 5 }, (_, i) => view.getInt16(44 + i * 2, true))
+    expect(samples).toEqual([0, 32767, -32767, 32767, -32767])
+  })
+
+  it('writes 24-bit samples as three little-endian bytes', () => {
+    const bytes = new Uint8Array(encodeWav([new Float32Array([0, 1, -1])], 48000, 24))
+    expect(Array.from(bytes.slice(44))).toEqual([0, 0, 0, 255, 255, 127, 1, 0, 128])
+  })
+
+  it('clips 24-bit samples past full scale', () => {
+    const bytes = new Uint8Array(encodeWav([new Float32Array([3, -3])], 48000, 24))
+    expect(Array.from(bytes.slice(44))).toEqual([255, 255, 127, 1, 0, 128])
+  })
+
+  it('interleaves channels frame by frame', () => {
+    const view = new DataView(encodeWav([new Float32Array([1, 0]), new Float32Array([-1, 0])], 48000, 16))
+    expect(view.getInt16(44, true)).toBe(32767)
+    expect(view.getInt16(46, true)).toBe(-32767)
+  })
+
+  it('rejects channels of different lengths', () => {
+    expect(() => encodeWav([new Float32Array(2), new Float32Array(3)], 48000)).toThrow()
+  })
+})
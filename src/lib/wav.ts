@@ -0,0 +1,64 @@
+export type WavBitDepth = 16 | 24
+
+// Encode planar float samples (-1..1, one array per channel) as a PCM WAV file.
+// Pure and synchronous, so it works the same on rendered buffers and in tests.
+export function encodeWav(
+  channels: Array<Float32Array>,
+  sampleRate: number,
+  bitDepth: WavBitDepth = 16,
+): ArrayBuffer {
+  if (channels.length === 0) throw new Error('encodeWav: need at least one channel')
+  const frames = channels[0].length
+  if (channels.some((channel) => channel.length !== frames)) {
+    throw new Error('encodeWav: all channels must have the same length')
+  }
+
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = channels.length * bytesPerSample
+  const dataSize = frames * blockAlign
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i))
+  }
+
+  // RIFF header
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(8, 'WAVE')
+
+  // fmt chunk: uncompressed PCM
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, channels.length, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+
+  // data chunk, channels interleaved frame by frame
+  writeString(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  const maxValue = 2 ** (bitDepth - 1) - 1
+  let offset = 44
+  for (let frame = 0; frame < frames; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame]))
+      const value = Math.round(sample * maxValue)
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true)
+      } else {
+        // 24-bit little endian, two's complement
+        view.setUint8(offset, value & 0xff)
+        view.setUint8(offset + 1, (value >> 8) & 0xff)
+        view.setUint8(offset + 2, (value >> 16) & 0xff)
+      }
+      offset += bytesPerSample
+    }
+  }
+
+  return buffer
+}
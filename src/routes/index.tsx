@@ -1,48 +1,142 @@
-import { createFileRoute } from '@tanstack/react-router'
-import { useCallback, useEffect, useRef, useState } from 'react'
-import { Play, Plus, Square, Trash2, Volume2 } from 'lucide-react'
-import { hush, initStrudel, s, samples } from '@strudel/web'
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
+import { Play, Plus, Square, Volume2 } from 'lucide-react'
+import { hush, silence } from '@strudel/web'
 import logo from '../logo.svg'
+import type { PatternInput } from '@/lib/tracks'
+import type { TempoSettings } from '@/lib/tempo'
+import type { Project } from '@/lib/projects'
+import type { Arrangement, Scene } from '@/lib/scenes'
+import type { MidiClockSettings } from '@/components/MidiPanel'
+import type { ProjectDocument } from '@/lib/projectHistory'
+import { buildStack, createTrack } from '@/lib/tracks'
+import { insertStep } from '@/lib/miniHighlight'
+import { applyScene, buildArrangement } from '@/lib/scenes'
+import {
+  addTrack,
+  moveTrack,
+  removeTrack,
+  replaceTracks,
+  updateProject,
+  updateTrack,
+} from '@/lib/projectHistory'
+import { useHistory } from '@/hooks/useHistory'
+import { currentCycle, setTempo, swapPattern } from '@/lib/strudel'
+import { subscribeVerdicts, verdictVersion } from '@/lib/codeEval'
+import { MidiClockFollower, MidiClockSender } from '@/lib/midiClock'
+import { getMidiInput, getMidiOutput } from '@/lib/midi'
+import { bpmToCps } from '@/lib/tempo'
+import { useMidi } from '@/hooks/useMidi'
+import {
+  projectFileName,
+  readProjectFile,
+  toProjectFile,
+} from '@/lib/projectFile'
+import { downloadBlob } from '@/lib/download'
+import {
+  SHARE_PARAM,
+  decodeSession,
+  encodeSession,
+  isShareParam,
+  nextTrackId,
+  shareUrl,
+} from '@/lib/share'
+import {
+  buildProject,
+  createProject,
+  deleteProject,
+  listProjects,
+  loadProject,
+  restoreProject,
+  saveProject,
+  setLastProjectId,
+} from '@/lib/projects'
+import { AudioExport } from '@/components/AudioExport'
+import { MidiExport } from '@/components/MidiExport'
+import { MidiPanel } from '@/components/MidiPanel'
+import { PatternCard } from '@/components/PatternCard'
+import { ProjectMenu } from '@/components/ProjectMenu'
+import { SampleBankManager } from '@/components/SampleBankManager'
+import { SampleBrowser } from '@/components/SampleBrowser'
+import { ScenePanel } from '@/components/ScenePanel'
+import { HistoryPanel } from '@/components/HistoryPanel'
+import { Punchcard } from '@/components/Punchcard'
+import { TempoControl } from '@/components/TempoControl'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Slider } from '@/components/ui/slider'
 
+interface AppSearch {
+  // Compressed session from a share link
+  [SHARE_PARAM]?: string
+}
+
 export const Route = createFileRoute('/')({
+  validateSearch: (search: Record<string, unknown>): AppSearch => ({
+    [SHARE_PARAM]: isShareParam(search[SHARE_PARAM]) ? search[SHARE_PARAM] : undefined,
+  }),
   component: App,
 })
 
-// Initialize Strudel outside of component
-initStrudel({
-  prebake: () => samples('github:tidalcycles/dirt-samples'),
+// How long to wait after the last edit before re-evaluating while playing
+const EVAL_DEBOUNCE_MS = 500
+// How long to wait after the last edit before autosaving the project
+const AUTOSAVE_DEBOUNCE_MS = 500
+
+// The undoable part of a stored project
+const toDocument = ({ name, tracks, nextId, volume, tempo, scenes, arrangement }: Project): ProjectDocument => ({
+  name,
+  tracks,
+  nextId,
+  volume,
+  tempo,
+  scenes,
+  arrangement,
 })
 
-interface PatternInput {
-  id: string
-  pattern: string
-  name: string
-}
+// Editable fields keep the browser's own undo, except those marked as history
+// fields (the pattern editors), where every edit is already a history entry
+const hasOwnUndo = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.matches('input, textarea, select')) &&
+  !target.closest('[data-history-field]')
 
 function App() {
-  const [patterns, setPatterns] = useState<Array<PatternInput>>([
-    {
-      id: '1',
-      pattern: 'bd sd [~ bd] sd',
-      name: 'Kick & Snare'
-    },
-    {
-      id: '2', 
-      pattern: 'hh*8',
-      name: 'Hi-hats'
-    }
-  ])
-  const [volume, setVolume] = useState([0.7])
-  const [nextId, setNextId] = useState(3)
+  // Reopen whatever was open last time (read once, on first render)
+  const [initialProject] = useState(restoreProject)
+  const [projectId, setProjectId] = useState(initialProject.id)
+  const [projectList, setProjectList] = useState(listProjects)
+  // Every edit to the project goes through the undo history
+  const history = useHistory<ProjectDocument>(toDocument(initialProject))
+  const {
+    name: projectName,
+    tracks: patterns,
+    volume,
+    tempo,
+    scenes,
+    arrangement,
+  } = history.present
+  // Whether the transport plays the track list as it stands or the arrangement
+  const [playMode, setPlayMode] = useState<'tracks' | 'song'>('tracks')
   const [isPlaying, setIsPlaying] = useState(false)
   const [combinedPattern, setCombinedPattern] = useState<any>(null)
+  const [trackErrors, setTrackErrors] = useState<Record<string, string>>({})
+  const [trackLayers, setTrackLayers] = useState<Record<string, any>>({})
+  // Why the last Play All didn't start, shown under the transport buttons
+  const [playError, setPlayError] = useState<string | null>(null)
+  // Why the share link the page was opened with didn't load, shown in the project menu
+  const [shareError, setShareError] = useState<string | null>(null)
+  const midi = useMidi()
+  const [midiClock, setMidiClock] = useState<MidiClockSettings>({ mode: 'off', portId: '' })
   
   // Use refs to avoid dependency cycles
   const patternsRef = useRef(patterns)
-  const volumeRef = useRef(volume[0])
+  const volumeRef = useRef(volume)
+  const scenesRef = useRef(scenes)
+  const arrangementRef = useRef(arrangement)
+  const playModeRef = useRef(playMode)
+  // Last source that parsed for each track, kept playing while an edit is broken
+  const lastGoodRef = useRef(new Map<string, any>())
   
   // Update refs when state changes
   useEffect(() => {
@@ -50,36 +144,39 @@ function App() {
   }, [patterns])
   
   useEffect(() => {
-    volumeRef.current = volume[0]
+    volumeRef.current = volume
   }, [volume])
 
+  useEffect(() => {
+    scenesRef.current = scenes
+    arrangementRef.current = arrangement
+  }, [scenes, arrangement])
+
   const createAndPlayPattern = useCallback(() => {
-    const validPatterns = patternsRef.current.filter(p => p.pattern.trim())
-    if (validPatterns.length === 0) return null
+    // Each track is compiled on its own and layered with stack()
+    const { pattern, layers, errors } = buildStack(patternsRef.current, lastGoodRef.current)
+    setTrackErrors(errors)
+    setTrackLayers(layers)
 
-    try {
-      // Combine all patterns using Strudel's stack function
-      let combined
-      if (validPatterns.length === 1) {
-        combined = s(validPatterns[0].pattern)
-      } else {
-        // Stack all patterns together
-        const patternStrings = validPatterns.map(p => p.pattern)
-        combined = s(patternStrings.join(', ')) // Simple comma separation for layering
-      }
-      
-      const finalPattern = combined.gain(volumeRef.current)
-      return finalPattern
-    } catch (error) {
-      console.error('Error creating pattern:', error)
-      return null
-    }
+    // In song mode each cycle comes from the scene the arrangement schedules for it
+    const played = playModeRef.current === 'song'
+      ? buildArrangement(arrangementRef.current, (sceneId) => {
+          const scene = scenesRef.current.find((s) => s.id === sceneId)
+          return scene ? buildStack(applyScene(scene, patternsRef.current), lastGoodRef.current).pattern : null
+        })
+      : pattern
+    if (!played) return null
+
+    // Master volume goes on postgain so it scales the per-track gain instead of replacing it
+    return played.postgain(volumeRef.current)
   }, [])
 
   const playAll = useCallback(() => {
+    // A fresh start skips broken tracks instead of reviving an older version
+    lastGoodRef.current.clear()
     const pattern = createAndPlayPattern()
     if (!pattern) {
-      alert('No valid patterns to play')
+      setPlayError('No valid patterns to play')
       return
     }
 
@@ -87,12 +184,27 @@ function App() {
       pattern.play()
       setCombinedPattern(pattern)
       setIsPlaying(true)
+      setPlayError(null)
     } catch (error) {
       console.error('Error playing patterns:', error)
-      alert('Error playing patterns. Please check your syntax.')
+      setPlayError(error instanceof Error ? error.message : String(error))
     }
   }, [createAndPlayPattern])
 
+  const switchPlayMode = (mode: 'tracks' | 'song') => {
+    playModeRef.current = mode
+    setPlayMode(mode)
+  }
+
+  // Play All always plays the track list as it stands
+  const playTracks = useCallback(() => {
+    switchPlayMode('tracks')
+    playAll()
+  }, [playAll])
+
+  // Tracks with errors that aren't playing, listed beside the transport
+  const skippedTracks = patterns.filter((p) => trackErrors[p.id] && !(p.id in trackLayers))
+
   const stopAll = useCallback(() => {
     if (combinedPattern) {
       combinedPattern.stop?.()
@@ -100,33 +212,319 @@ function App() {
     hush() // Stop all patterns
     setIsPlaying(false)
     setCombinedPattern(null)
+    setTrackLayers({})
   }, [combinedPattern])
 
+  const { execute } = history
+
   const addPattern = useCallback(() => {
-    const newPattern: PatternInput = {
-      id: nextId.toString(),
-      pattern: '',
-      name: `Pattern ${nextId}`
-    }
-    setPatterns([...patterns, newPattern])
-    setNextId(nextId + 1)
-  }, [nextId, patterns])
+    execute((doc) => addTrack(doc, createTrack(doc.nextId.toString(), `Pattern ${doc.nextId}`)))
+  }, [execute])
 
   const removePattern = useCallback((id: string) => {
-    // Stop all if playing when removing a pattern
+    // The running stack is rebuilt by the live re-evaluation below
+    lastGoodRef.current.delete(id)
+    execute((doc) => removeTrack(doc, id))
+  }, [execute])
+
+  const updatePattern = useCallback((id: string, patch: Partial<PatternInput>) => {
+    execute((doc) => updateTrack(doc, id, patch))
+  }, [execute])
+
+  const movePattern = useCallback((id: string, offset: number) => {
+    execute((doc) => moveTrack(doc, id, offset))
+  }, [execute])
+
+  const setProjectName = useCallback((name: string) => {
+    execute((doc) => updateProject(doc, { name }, 'Rename project'))
+  }, [execute])
+
+  const setVolume = useCallback((next: number) => {
+    execute((doc) => updateProject(doc, { volume: next }, 'Change volume'))
+  }, [execute])
+
+  const setTempoSettings = useCallback((update: TempoSettings | ((current: TempoSettings) => TempoSettings)) => {
+    execute((doc) =>
+      updateProject(doc, { tempo: typeof update === 'function' ? update(doc.tempo) : update }, 'Change tempo'),
+    )
+  }, [execute])
+
+  const setScenes = useCallback((next: Array<Scene>) => {
+    execute((doc) => updateProject(doc, { scenes: next }, 'Edit scenes'))
+  }, [execute])
+
+  const setArrangement = useCallback((next: Arrangement) => {
+    execute((doc) => updateProject(doc, { arrangement: next }, 'Edit arrangement'))
+  }, [execute])
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) outside text fields, and in the pattern fields
+  const { undo, redo } = history
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || hasOwnUndo(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' || key === 'y') {
+        e.preventDefault()
+        if (key === 'y' || e.shiftKey) redo()
+        else undo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Where the caret was last seen, so the sample browser knows where to insert
+  const cursorRef = useRef<{ trackId: string; caret: number } | null>(null)
+
+  // Insert a sample step into the last focused track, or the last track if none was
+  const insertSample = useCallback((step: string) => {
+    const target =
+      patterns.find((p) => p.id === cursorRef.current?.trackId) ?? patterns.at(-1)
+    if (!target) return
+    const caret = cursorRef.current?.trackId === target.id ? cursorRef.current.caret : target.pattern.length
+    const inserted = insertStep(target.pattern, caret, step)
+    cursorRef.current = { trackId: target.id, caret: inserted.caret }
+    updatePattern(target.id, { pattern: inserted.text })
+  }, [patterns, updatePattern])
+
+  // Re-evaluate and hot-swap the running pattern at the next cycle boundary
+  const reevaluate = useCallback(() => {
+    // Nothing audible left (all muted or empty) - swap in silence but keep the clock running
+    const pattern = createAndPlayPattern() ?? silence
+    swapPattern(pattern)
+    setCombinedPattern(pattern)
+  }, [createAndPlayPattern])
+
+  // Apply a scene's mix; while playing it takes over at the next cycle boundary
+  const launchScene = useCallback((scene: Scene) => {
+    const next = applyScene(scene, patterns)
+    execute((doc) => replaceTracks(doc, next, `Launch ${scene.name}`))
+    switchPlayMode('tracks')
+    if (isPlaying) {
+      // Don't wait for the debounced re-evaluation, the boundary may be close
+      patternsRef.current = next
+      reevaluate()
+    }
+  }, [execute, isPlaying, patterns, reevaluate])
+
+  // Play the arrangement from its first cycle
+  const playSong = useCallback(() => {
+    switchPlayMode('song')
+    if (isPlaying) hush()
+    playAll()
+  }, [isPlaying, playAll])
+
+  // Ctrl+Enter evaluates right away, starting playback if needed
+  const evaluateNow = useCallback(() => {
+    if (isPlaying) {
+      reevaluate()
+    } else {
+      playAll()
+    }
+  }, [isPlaying, playAll, reevaluate])
+
+  // Tempo from an external MIDI clock. It drives the scheduler but isn't a
+  // project edit, so it stays out of the undo history and the saved file.
+  const [followedCps, setFollowedCps] = useState<number | null>(null)
+  const playbackTempo = useMemo(
+    () => (followedCps === null ? tempo : { ...tempo, cps: followedCps }),
+    [followedCps, tempo],
+  )
+
+  // Tempo goes straight to the scheduler, no re-evaluation needed
+  useEffect(() => {
+    setTempo(playbackTempo.cps)
+  }, [playbackTempo.cps])
+
+  // MIDI clock out runs while playing, locked to the scheduler
+  const tempoRef = useRef(tempo)
+  useEffect(() => {
+    tempoRef.current = tempo
+  }, [tempo])
+
+  useEffect(() => {
+    if (midiClock.mode !== 'send' || !isPlaying) return
+    const output = getMidiOutput(midiClock.portId)
+    if (!output) return
+    const sender = new MidiClockSender(output, {
+      cycle: currentCycle,
+      cps: () => tempoRef.current.cps,
+      beatsPerCycle: () => tempoRef.current.beatsPerCycle,
+    })
+    sender.start()
+    return () => sender.stop()
+  }, [midiClock, isPlaying])
+
+  // Following external clock drives tempo and transport
+  const transportRef = useRef({ playAll, stopAll })
+  useEffect(() => {
+    transportRef.current = { playAll, stopAll }
+  }, [playAll, stopAll])
+
+  useEffect(() => {
+    if (midiClock.mode !== 'follow') return
+    const input = getMidiInput(midiClock.portId)
+    if (!input) return
+    const follower = new MidiClockFollower(input, {
+      onTempo: (bpm) => setFollowedCps(bpmToCps(bpm, tempoRef.current.beatsPerCycle)),
+      onStart: () => transportRef.current.playAll(),
+      onStop: () => transportRef.current.stopAll(),
+    })
+    follower.start()
+    return () => {
+      follower.stop()
+      setFollowedCps(null)
+    }
+  }, [midiClock])
+
+  // Code-mode tracks only compile once their dry run passes, so a finished
+  // check counts as an edit
+  const checkedCode = useSyncExternalStore(subscribeVerdicts, verdictVersion)
+
+  // Read through a ref so a new callback alone doesn't restart the debounce
+  const reevaluateRef = useRef(reevaluate)
+  useEffect(() => {
+    reevaluateRef.current = reevaluate
+  }, [reevaluate])
+
+  // Debounced live re-evaluation of edits while playing. Stopping cancels a
+  // pending one, which would otherwise start playback again.
+  useEffect(() => {
+    if (!isPlaying) return
+    const timer = setTimeout(() => reevaluateRef.current(), EVAL_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, patterns, volume, scenes, arrangement, checkedCode])
+
+  // Snapshot of the open project as it should be stored
+  const currentProject = useMemo<Project>(
+    () => ({
+      ...initialProject,
+      ...history.present,
+      id: projectId,
+    }),
+    [initialProject, projectId, history.present],
+  )
+  const currentProjectRef = useRef(currentProject)
+
+  const saveNow = useCallback(() => {
+    saveProject(currentProjectRef.current)
+    setProjectList(listProjects())
+  }, [])
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    currentProjectRef.current = currentProject
+    const timer = setTimeout(saveNow, AUTOSAVE_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [currentProject, saveNow])
+
+  useEffect(() => {
+    setLastProjectId(projectId)
+  }, [projectId])
+
+  // Replace the whole session with another project
+  const openProject = useCallback((project: Project) => {
     if (isPlaying) {
       stopAll()
     }
-    setPatterns(patterns.filter(p => p.id !== id))
-  }, [isPlaying, patterns, stopAll])
+    lastGoodRef.current.clear()
+    setTrackErrors({})
+    setProjectId(project.id)
+    history.reset(toDocument(project))
+    switchPlayMode('tracks')
+    setProjectList(listProjects())
+  }, [history.reset, isPlaying, stopAll])
 
-  const updatePattern = useCallback((id: string, field: keyof PatternInput, value: string) => {
-    setPatterns(patterns.map(p => 
-      p.id === id ? { ...p, [field]: value } : p
-    ))
-  }, [patterns])
+  const selectProject = useCallback((id: string) => {
+    // Flush pending edits before switching away
+    saveNow()
+    const project = loadProject(id)
+    if (project) openProject(project)
+  }, [openProject, saveNow])
+
+  const newProject = useCallback(() => {
+    saveNow()
+    openProject(createProject(`Project ${projectList.length + 1}`))
+  }, [openProject, projectList.length, saveNow])
+
+  const duplicateProject = useCallback(() => {
+    saveNow()
+    openProject(createProject(`${projectName} (copy)`, currentProjectRef.current))
+  }, [openProject, projectName, saveNow])
+
+  const removeProject = useCallback(() => {
+    if (!confirm(`Delete "${projectName}"? This cannot be undone.`)) return
+    deleteProject(projectId)
+    const next = listProjects().at(0)
+    openProject((next && loadProject(next.id)) || createProject('Untitled Project'))
+  }, [openProject, projectId, projectName])
+
+  // Opening a share link loads it as a new local project, then drops the param
+  const { [SHARE_PARAM]: sharedSession } = Route.useSearch()
+  const navigate = useNavigate({ from: '/' })
+  useEffect(() => {
+    if (!sharedSession) return
+    decodeSession(sharedSession)
+      .then(({ name, ...data }) => {
+        setShareError(null)
+        openProject(buildProject(name, { ...data, nextId: nextTrackId(data.tracks) }))
+      })
+      .catch((error) => {
+        console.error('Error loading share link:', error)
+        setShareError('This share link is broken or incomplete.')
+      })
+      .finally(() => navigate({ search: {}, replace: true }))
+  }, [sharedSession])
+
+  const copyShareLink = useCallback(async () => {
+    const { name, tracks, volume: sharedVolume, tempo: sharedTempo, scenes: sharedScenes, arrangement: sharedArrangement } =
+      currentProjectRef.current
+    const encoded = await encodeSession({
+      name,
+      tracks,
+      volume: sharedVolume,
+      tempo: sharedTempo,
+      scenes: sharedScenes,
+      arrangement: sharedArrangement,
+    })
+    await navigator.clipboard.writeText(shareUrl(encoded))
+  }, [])
+
+  const exportProject = useCallback(() => {
+    const file = toProjectFile(currentProjectRef.current)
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+    downloadBlob(blob, projectFileName(file.name))
+  }, [])
+
+  // Imported files become a new local project
+  const importProject = useCallback(async (file: File) => {
+    const result = readProjectFile(await file.text())
+    if (!result.ok) return result.errors
+
+    saveNow()
+    const { name, tracks, volume: importedVolume, tempo: importedTempo, scenes: importedScenes, arrangement: importedArrangement } =
+      result.file
+    openProject(
+      createProject(name, {
+        tracks,
+        volume: importedVolume,
+        tempo: importedTempo,
+        scenes: importedScenes,
+        arrangement: importedArrangement,
+        nextId: nextTrackId(tracks),
+      }),
+    )
+    return []
+  }, [openProject, saveNow])
 
-  // No volume update effect needed - volume is applied when pattern is created
+  // Lanes follow card order and names, patterns come from the last compile
+  const punchcardTracks = useMemo(
+    () =>
+      patterns
+        .filter(p => p.id in trackLayers)
+        .map(p => ({ id: p.id, name: p.name, pattern: trackLayers[p.id] })),
+    [patterns, trackLayers],
+  )
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 p-4">
@@ -148,6 +546,21 @@ function App() {
       <div className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Controls */}
         <div className="lg:col-span-1 space-y-4">
+          <ProjectMenu
+            projects={projectList}
+            currentId={projectId}
+            currentName={projectName}
+            onSelect={selectProject}
+            onRename={setProjectName}
+            onCreate={newProject}
+            onDuplicate={duplicateProject}
+            onDelete={removeProject}
+            onShare={copyShareLink}
+            shareError={shareError}
+            onExport={exportProject}
+            onImport={importProject}
+          />
+
           {/* Global Controls */}
           <Card className="bg-black/20 backdrop-blur-sm border-white/10">
             <CardHeader className="pb-3">
@@ -157,8 +570,8 @@ function App() {
               {/* Global Controls */}
               <div className="flex gap-2">
                 <Button
-                  onClick={playAll}
-                  disabled={isPlaying || patterns.filter(p => p.pattern.trim()).length === 0}
+                  onClick={playTracks}
+                  disabled={(isPlaying && playMode === 'tracks') || patterns.filter(p => p.pattern.trim()).length === 0}
                   size="sm"
                   className="bg-green-600 hover:bg-green-700 text-white flex-1"
                 >
@@ -176,6 +589,19 @@ function App() {
                   Stop All
                 </Button>
               </div>
+              {playError && <p className="text-xs text-red-400">{playError}</p>}
+              {isPlaying && skippedTracks.length > 0 && (
+                <div className="text-xs text-red-400 space-y-1">
+                  <p>Skipped with errors:</p>
+                  <ul className="list-disc list-inside font-mono">
+                    {skippedTracks.map((track) => (
+                      <li key={track.id} className="break-words">
+                        {track.name || 'Untitled'}: {trackErrors[track.id]}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               
               <Button
                 onClick={addPattern}
@@ -190,11 +616,11 @@ function App() {
               <div className="space-y-2">
                 <div className="flex items-center gap-2 text-white">
                   <Volume2 className="h-3 w-3" />
-                  <span className="text-xs">Volume: {Math.round(volume[0] * 100)}%</span>
+                  <span className="text-xs">Volume: {Math.round(volume * 100)}%</span>
                 </div>
                 <Slider
-                  value={volume}
-                  onValueChange={setVolume}
+                  value={[volume]}
+                  onValueChange={([next]) => setVolume(next)}
                   max={1}
                   min={0}
                   step={0.01}
@@ -202,6 +628,8 @@ function App() {
                 />
               </div>
 
+              <TempoControl tempo={playbackTempo} onChange={setTempoSettings} />
+
               {/* Status */}
               <div className="text-center">
                 <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
@@ -212,34 +640,53 @@ function App() {
                   {isPlaying ? '🎵 Playing' : '⏸️ Stopped'}
                 </span>
               </div>
+              <p className="text-center text-xs text-gray-400">
+                Ctrl+Enter evaluate • Ctrl+. stop • Tab complete sample • Ctrl+Z undo
+              </p>
             </CardContent>
           </Card>
 
-          {/* Sample Patterns Help */}
-          <Card className="bg-black/20 backdrop-blur-sm border-white/10">
-            <CardHeader className="pb-3">
-              <CardTitle className="text-white text-lg">Sample Patterns</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3 text-xs">
-                <div className="space-y-1">
-                  <h4 className="font-semibold text-white text-sm">Basic Drums:</h4>
-                  <div className="font-mono text-gray-300 space-y-1">
-                    <div><code className="bg-black/30 px-1 py-0.5 rounded text-xs">bd sd [~ bd] sd</code></div>
-                    <div><code className="bg-black/30 px-1 py-0.5 rounded text-xs">hh*8</code></div>
-                    <div><code className="bg-black/30 px-1 py-0.5 rounded text-xs">oh ~ ~ hh</code></div>
-                  </div>
-                </div>
-                <div className="space-y-1">
-                  <h4 className="font-semibold text-white text-sm">Advanced:</h4>
-                  <div className="font-mono text-gray-300 space-y-1">
-                    <div><code className="bg-black/30 px-1 py-0.5 rounded text-xs">bd sd, hh*4</code></div>
-                    <div><code className="bg-black/30 px-1 py-0.5 rounded text-xs">bd(&lt;3 5&gt;,8)</code></div>
-                  </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <HistoryPanel
+            entries={history.entries}
+            position={history.position}
+            onUndo={undo}
+            onRedo={redo}
+            onJump={history.jump}
+          />
+
+          <ScenePanel
+            scenes={scenes}
+            arrangement={arrangement}
+            tracks={patterns}
+            playingSong={isPlaying && playMode === 'song'}
+            onScenesChange={setScenes}
+            onArrangementChange={setArrangement}
+            onLaunch={launchScene}
+            onPlaySong={playSong}
+          />
+
+          <AudioExport
+            tracks={patterns}
+            volume={volume}
+            cps={tempo.cps}
+            projectName={projectName}
+          />
+
+          <MidiExport tracks={patterns} tempo={tempo} projectName={projectName} />
+
+          <MidiPanel
+            enabled={midi.enabled}
+            error={midi.error}
+            outputs={midi.outputs}
+            inputs={midi.inputs}
+            clock={midiClock}
+            onEnable={midi.enable}
+            onClockChange={setMidiClock}
+          />
+
+          <SampleBankManager />
+
+          <SampleBrowser onInsert={insertSample} />
 
           {/* Info Links */}
           <div className="flex flex-col gap-2 text-xs">
@@ -264,43 +711,29 @@ function App() {
 
         {/* Right Column - Pattern Cards */}
         <div className="lg:col-span-2 space-y-3">
-          {patterns.map((pattern) => (
-            <Card key={pattern.id} className="bg-black/20 backdrop-blur-sm border-white/10">
-              <CardHeader className="pb-2">
-                <div className="flex items-center justify-between">
-                  <input
-                    type="text"
-                    value={pattern.name}
-                    onChange={(e) => updatePattern(pattern.id, 'name', e.target.value)}
-                    className="text-lg font-semibold bg-transparent text-white border-none outline-none hover:bg-white/10 px-2 py-1 rounded flex-1"
-                    placeholder="Pattern Name"
-                  />
-                  <Button
-                    onClick={() => removePattern(pattern.id)}
-                    size="sm"
-                    variant="destructive"
-                    className="h-7 w-7 p-0 ml-2"
-                  >
-                    <Trash2 className="h-3 w-3" />
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent className="pt-0">
-                {/* Pattern Input */}
-                <div className="space-y-1">
-                  <label className="text-xs font-medium text-gray-300">
-                    Strudel Pattern:
-                  </label>
-                  <textarea
-                    value={pattern.pattern}
-                    onChange={(e) => updatePattern(pattern.id, 'pattern', e.target.value)}
-                    className="w-full h-12 px-2 py-1 bg-black/30 border border-white/20 rounded-md text-white placeholder-gray-400 font-mono text-sm resize-none"
-                    placeholder='e.g. "bd sd [~ bd] sd" or "hh*8"'
-                  />
-                </div>
-              </CardContent>
-            </Card>
+          {patterns.map((pattern, index) => (
+            <PatternCard
+              key={pattern.id}
+              pattern={pattern}
+              error={trackErrors[pattern.id]}
+              layer={trackLayers[pattern.id]}
+              isPlaying={isPlaying}
+              silencedBySolo={!pattern.soloed && patterns.some(p => p.soloed)}
+              midiOutputs={midi.outputs}
+              onChange={(patch) => updatePattern(pattern.id, patch)}
+              onRemove={() => removePattern(pattern.id)}
+              onMove={(offset) => movePattern(pattern.id, offset)}
+              isFirst={index === 0}
+              isLast={index === patterns.length - 1}
+              onCursor={(caret) => {
+                cursorRef.current = { trackId: pattern.id, caret }
+              }}
+              onEvaluate={evaluateNow}
+              onHush={stopAll}
+            />
           ))}
+
+          <Punchcard isPlaying={isPlaying} tracks={punchcardTracks} />
         </div>
       </div>
     </div>
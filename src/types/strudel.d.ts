@@ -1,8 +1,54 @@
 declare module '@strudel/web' {
-  export function initStrudel(config: any): void
-  export function samples(path: string): Promise<any>
+  export function initStrudel(config: any): Promise<any>
+  export function samples(
+    sampleMap: string | Record<string, any>,
+    baseUrl?: string,
+    options?: { tag?: string; prebake?: boolean },
+  ): Promise<any>
   export function s(pattern: string): any
+  export function n(pattern: string): any
+  export function note(pattern: string): any
+  export function gain(value: number | string): any
+  export function stack(...patterns: Array<any>): any
+  // Turn a value into a pattern; strings are mini-parsed once miniAllStrings has run
+  export function reify(value: any): any
+  export function miniAllStrings(): void
   export function hush(): void
+  export const silence: any
+  export function getFreq(noteOrMidi: string | number): number
+  export function noteToMidi(note: string, defaultOctave?: number): number
+  export function getSound(s: string): { onTrigger: any; data: Record<string, any> } | undefined
+  // nanostores map of registered sounds, keyed by lowercase name
+  export const soundMap: {
+    get: () => Record<string, { onTrigger: any; data: Record<string, any> }>
+    listen: (listener: () => void) => () => void
+    // undefined removes the key
+    setKey: (key: string, value: { onTrigger: any; data: Record<string, any> } | undefined) => void
+  }
+  export function getAudioContext(): AudioContext
+  // The bundle's own copy of @strudel/core's evalScope
+  export function evalScope(...modules: Array<any>): Promise<Array<Record<string, any>>>
+  // Play one hap value at audio time `t` (seconds) through the live output
+  export function superdough(value: Record<string, any>, t: number, hapDuration: number, cps?: number): Promise<void>
+  export function getSampleBuffer(
+    hapValue: Record<string, any>,
+    bank: any,
+  ): Promise<{ buffer: AudioBuffer; playbackRate: number }>
+
+  export class Pattern {
+    constructor(query: (state: any) => Array<any>)
+    [method: string]: any
+  }
+  export class TimeSpan {
+    constructor(begin: any, end: any)
+    [member: string]: any
+  }
+  export class Hap {
+    constructor(whole: any, part: any, value: any, context?: Record<string, any>)
+    [member: string]: any
+  }
+  // Exact rational time; takes a number or a 'n/d' string
+  export function Fraction(value: number | string): any
   
   export interface StrudelPattern {
     play: () => void
@@ -13,7 +59,8 @@ declare module '@strudel/web' {
 }
 
 declare module '@strudel/core' {
-  export function evalScope(...modules: Array<any>): any
+  // Loads the modules, copies their exports onto globalThis and resolves to the modules
+  export function evalScope(...modules: Array<any>): Promise<Array<Record<string, any>>>
 }
 
 declare module '@strudel/draw' {
@@ -50,6 +97,10 @@ declare module '@strudel/draw' {
 
 declare module '@strudel/mini' {
   // Mini notation functions
+  // Raw krill parser; throws a peggy SyntaxError with `location` and `found`
+  export function parse(input: string): any
+  // Make every string in Strudel functions parse as mini-notation
+  export function miniAllStrings(): void
 }
 
 declare module '@strudel/tonal' {
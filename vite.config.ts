@@ -15,6 +15,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'jsdom',
+    // @strudel/web's `main` is a browser IIFE with no exports; tests load its ES module build
+    alias: [{ find: /^@strudel\/web$/, replacement: '@strudel/web/dist/index.mjs' }],
   },
   resolve: {
     alias: {